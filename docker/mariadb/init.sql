@@ -8,9 +8,101 @@ CREATE TABLE IF NOT EXISTS agent_configs (
   tts_model VARCHAR(255) NOT NULL,
   temperature DOUBLE NOT NULL DEFAULT 1.0,
   speaking_rate DOUBLE NOT NULL DEFAULT 1.0,
+  pipeline VARCHAR(16) NULL,
+  realtime_json LONGTEXT NULL,
   knowledge_json LONGTEXT NULL,
+  knowledge_search_json LONGTEXT NULL,
+  stt_json LONGTEXT NULL,
+  locales_json LONGTEXT NULL,
+  tools_json LONGTEXT NULL,
+  handoffs_json LONGTEXT NULL,
+  extraction_json LONGTEXT NULL,
+  inactivity_json LONGTEXT NULL,
+  max_duration_json LONGTEXT NULL,
+  fallbacks_json LONGTEXT NULL,
+  pronunciation_json LONGTEXT NULL,
+  recording_json LONGTEXT NULL,
+  webhooks_json LONGTEXT NULL,
+  business_hours_json LONGTEXT NULL,
+  room_overrides_json LONGTEXT NULL,
+  memory_json LONGTEXT NULL,
+  turn_taking_json LONGTEXT NULL,
   created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
   updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
 );
 
+CREATE TABLE IF NOT EXISTS call_sessions (
+  id CHAR(36) NOT NULL PRIMARY KEY,
+  room_name VARCHAR(255) NOT NULL,
+  agent_type VARCHAR(64) NOT NULL,
+  started_at DATETIME(3) NOT NULL,
+  ended_at DATETIME(3) NULL,
+  usage_json LONGTEXT NULL,
+  extraction_json LONGTEXT NULL,
+  end_reason VARCHAR(64) NULL,
+  recording_file VARCHAR(255) NULL,
+  INDEX idx_call_sessions_room (room_name),
+  INDEX idx_call_sessions_started (started_at)
+);
+
+CREATE TABLE IF NOT EXISTS call_turns (
+  id BIGINT NOT NULL AUTO_INCREMENT PRIMARY KEY,
+  session_id CHAR(36) NOT NULL,
+  seq INT NOT NULL,
+  role VARCHAR(16) NOT NULL,
+  text LONGTEXT NOT NULL,
+  interrupted TINYINT(1) NOT NULL DEFAULT 0,
+  created_at DATETIME(3) NOT NULL,
+  INDEX idx_call_turns_session (session_id, seq),
+  CONSTRAINT fk_call_turns_session FOREIGN KEY (session_id)
+    REFERENCES call_sessions (id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS knowledge_files (
+  filename VARCHAR(255) NOT NULL PRIMARY KEY,
+  original_name VARCHAR(255) NOT NULL,
+  text LONGTEXT NULL,
+  error TEXT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS knowledge_snapshots (
+  source_key CHAR(64) NOT NULL PRIMARY KEY,
+  url TEXT NOT NULL,
+  documents_json LONGTEXT NULL,
+  content_hash CHAR(64) NULL,
+  fetched_at DATETIME(3) NULL,
+  checked_at DATETIME(3) NOT NULL,
+  error TEXT NULL
+);
+
+CREATE TABLE IF NOT EXISTS webhook_outbox (
+  id CHAR(36) NOT NULL PRIMARY KEY,
+  event VARCHAR(64) NOT NULL,
+  url TEXT NOT NULL,
+  secret_env VARCHAR(128) NOT NULL,
+  payload LONGTEXT NOT NULL,
+  attempts INT NOT NULL DEFAULT 0,
+  next_attempt_at DATETIME(3) NOT NULL,
+  claim_id CHAR(36) NULL,
+  claimed_until DATETIME(3) NULL,
+  delivered_at DATETIME(3) NULL,
+  failed_at DATETIME(3) NULL,
+  last_error TEXT NULL,
+  created_at DATETIME(3) NOT NULL,
+  INDEX idx_webhook_outbox_due (delivered_at, failed_at, next_attempt_at),
+  INDEX idx_webhook_outbox_claim (claim_id)
+);
+
+CREATE TABLE IF NOT EXISTS caller_memory (
+  agent_type VARCHAR(64) NOT NULL,
+  caller_key VARCHAR(255) NOT NULL,
+  summary TEXT NULL,
+  facts_json LONGTEXT NULL,
+  calls INT NOT NULL DEFAULT 0,
+  last_call_at DATETIME(3) NULL,
+  updated_at DATETIME(3) NOT NULL,
+  PRIMARY KEY (agent_type, caller_key),
+  INDEX idx_caller_memory_caller (caller_key)
+);
 
@@ -0,0 +1,12 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+
+import { HTML_UI } from './admin-ui.js';
+
+describe('Admin UI', () => {
+  it('should serve a page script that parses', () => {
+    const script = /<script>([\s\S]*)<\/script>/.exec(HTML_UI)?.[1];
+    assert.ok(script, 'page should have an inline script');
+    assert.doesNotThrow(() => new Function(script));
+  });
+});
@@ -0,0 +1,1374 @@
+/**
+ * Admin panel page, served by admin.ts at `/`.
+ *
+ * The page script lives inside this template literal, so backslashes in it must be doubled
+ * (`'\\n'`) and `${` escaped as `\${`; admin-ui.test.ts parses the script to catch slips.
+ */
+export const HTML_UI = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Oly Agent Admin</title>
+  <link href="https://fonts.googleapis.com/css2?family=JetBrains+Mono:wght@400;500;600&family=Space+Grotesk:wght@400;500;600;700&display=swap" rel="stylesheet">
+  <style>
+    :root {
+      --bg: #0a0a0f;
+      --bg-card: #12121a;
+      --bg-input: #1a1a24;
+      --border: #2a2a3a;
+      --text: #e4e4eb;
+      --text-muted: #8888a0;
+      --primary: #6366f1;
+      --primary-hover: #818cf8;
+      --danger: #ef4444;
+      --danger-hover: #f87171;
+      --success: #10b981;
+      --accent: #f59e0b;
+    }
+
+    * { box-sizing: border-box; margin: 0; padding: 0; }
+
+    body {
+      font-family: 'Space Grotesk', sans-serif;
+      background: var(--bg);
+      color: var(--text);
+      min-height: 100vh;
+      background-image: 
+        radial-gradient(ellipse at 20% 0%, rgba(99, 102, 241, 0.15) 0%, transparent 50%),
+        radial-gradient(ellipse at 80% 100%, rgba(245, 158, 11, 0.1) 0%, transparent 50%);
+    }
+
+    .container {
+      max-width: 1400px;
+      margin: 0 auto;
+      padding: 2rem;
+    }
+
+    header {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      margin-bottom: 2rem;
+      padding-bottom: 1.5rem;
+      border-bottom: 1px solid var(--border);
+    }
+
+    h1 {
+      font-size: 1.75rem;
+      font-weight: 700;
+      background: linear-gradient(135deg, var(--primary) 0%, var(--accent) 100%);
+      -webkit-background-clip: text;
+      -webkit-text-fill-color: transparent;
+      background-clip: text;
+    }
+
+    .btn {
+      font-family: inherit;
+      font-size: 0.875rem;
+      font-weight: 500;
+      padding: 0.625rem 1.25rem;
+      border: none;
+      border-radius: 8px;
+      cursor: pointer;
+      transition: all 0.2s;
+      display: inline-flex;
+      align-items: center;
+      gap: 0.5rem;
+    }
+
+    .btn-primary {
+      background: var(--primary);
+      color: white;
+    }
+    .btn-primary:hover { background: var(--primary-hover); }
+
+    .btn-danger {
+      background: var(--danger);
+      color: white;
+    }
+    .btn-danger:hover { background: var(--danger-hover); }
+
+    .btn-ghost {
+      background: transparent;
+      color: var(--text-muted);
+      border: 1px solid var(--border);
+    }
+    .btn-ghost:hover { 
+      background: var(--bg-input); 
+      color: var(--text);
+    }
+
+    .grid {
+      display: grid;
+      grid-template-columns: 320px 1fr;
+      gap: 2rem;
+    }
+
+    .sidebar {
+      background: var(--bg-card);
+      border: 1px solid var(--border);
+      border-radius: 12px;
+      padding: 1rem;
+      height: fit-content;
+      position: sticky;
+      top: 2rem;
+    }
+
+    .agent-list {
+      list-style: none;
+    }
+
+    .agent-item {
+      padding: 0.875rem 1rem;
+      border-radius: 8px;
+      cursor: pointer;
+      transition: all 0.15s;
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      margin-bottom: 0.25rem;
+    }
+
+    .agent-item:hover { background: var(--bg-input); }
+    .agent-item.active { 
+      background: var(--primary);
+      color: white;
+    }
+
+    .agent-item .name {
+      font-weight: 500;
+    }
+
+    .agent-item .type {
+      font-size: 0.75rem;
+      color: var(--text-muted);
+      font-family: 'JetBrains Mono', monospace;
+    }
+
+    .agent-item.active .type { color: rgba(255,255,255,0.7); }
+
+    .main-content {
+      background: var(--bg-card);
+      border: 1px solid var(--border);
+      border-radius: 12px;
+      padding: 2rem;
+    }
+
+    .form-header {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      margin-bottom: 2rem;
+    }
+
+    .form-header h2 {
+      font-size: 1.25rem;
+      font-weight: 600;
+    }
+
+    .form-grid {
+      display: grid;
+      grid-template-columns: 1fr 1fr;
+      gap: 1.5rem;
+    }
+
+    .form-group {
+      display: flex;
+      flex-direction: column;
+      gap: 0.5rem;
+    }
+
+    .form-group.full { grid-column: 1 / -1; }
+
+    label {
+      font-size: 0.875rem;
+      font-weight: 500;
+      color: var(--text-muted);
+    }
+
+    input, textarea, select {
+      font-family: 'JetBrains Mono', monospace;
+      font-size: 0.875rem;
+      padding: 0.75rem 1rem;
+      background: var(--bg-input);
+      border: 1px solid var(--border);
+      border-radius: 8px;
+      color: var(--text);
+      transition: border-color 0.2s;
+    }
+
+    input:focus, textarea:focus, select:focus {
+      outline: none;
+      border-color: var(--primary);
+    }
+
+    textarea {
+      resize: vertical;
+      min-height: 120px;
+    }
+
+    .knowledge-section {
+      margin-top: 2rem;
+      padding-top: 2rem;
+      border-top: 1px solid var(--border);
+    }
+
+    .knowledge-header {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      margin-bottom: 1rem;
+    }
+
+    .knowledge-header h3 {
+      font-size: 1rem;
+      font-weight: 600;
+      display: flex;
+      align-items: center;
+      gap: 0.5rem;
+    }
+
+    .knowledge-actions {
+      display: flex;
+      gap: 0.5rem;
+    }
+
+    .knowledge-list {
+      display: flex;
+      flex-direction: column;
+      gap: 0.75rem;
+    }
+
+    .knowledge-item {
+      display: flex;
+      align-items: flex-start;
+      gap: 1rem;
+      padding: 1rem;
+      background: var(--bg-input);
+      border: 1px solid var(--border);
+      border-radius: 8px;
+    }
+
+    .knowledge-item .type-badge {
+      font-size: 0.625rem;
+      font-weight: 600;
+      text-transform: uppercase;
+      padding: 0.25rem 0.5rem;
+      border-radius: 4px;
+      background: var(--primary);
+      color: white;
+      flex-shrink: 0;
+    }
+
+    .knowledge-item .type-badge.website { background: #0ea5e9; }
+    .knowledge-item .type-badge.file { background: #8b5cf6; }
+    .knowledge-item .type-badge.page { background: #10b981; }
+    .knowledge-item .type-badge.tool { background: #f59e0b; }
+
+    .knowledge-item .content {
+      flex: 1;
+      min-width: 0;
+    }
+
+    .knowledge-item .title {
+      font-weight: 500;
+      margin-bottom: 0.25rem;
+    }
+
+    .knowledge-item .value {
+      font-size: 0.8rem;
+      color: var(--text-muted);
+      word-break: break-all;
+      font-family: 'JetBrains Mono', monospace;
+    }
+
+    .knowledge-item .remove-btn {
+      background: none;
+      border: none;
+      color: var(--danger);
+      cursor: pointer;
+      padding: 0.25rem;
+      font-size: 1.25rem;
+      line-height: 1;
+    }
+
+    .modal-overlay {
+      display: none;
+      position: fixed;
+      inset: 0;
+      background: rgba(0,0,0,0.7);
+      backdrop-filter: blur(4px);
+      z-index: 100;
+      align-items: center;
+      justify-content: center;
+    }
+
+    .modal-overlay.active { display: flex; }
+
+    .modal {
+      background: var(--bg-card);
+      border: 1px solid var(--border);
+      border-radius: 12px;
+      padding: 2rem;
+      width: 90%;
+      max-width: 500px;
+    }
+
+    .modal h3 {
+      margin-bottom: 1.5rem;
+    }
+
+    .modal .form-group { margin-bottom: 1rem; }
+
+    .modal-actions {
+      display: flex;
+      justify-content: flex-end;
+      gap: 0.75rem;
+      margin-top: 1.5rem;
+    }
+
+    .empty-state {
+      text-align: center;
+      padding: 4rem 2rem;
+      color: var(--text-muted);
+    }
+
+    .empty-state h3 {
+      font-size: 1.25rem;
+      margin-bottom: 0.5rem;
+      color: var(--text);
+    }
+
+    .toast {
+      position: fixed;
+      bottom: 2rem;
+      right: 2rem;
+      padding: 1rem 1.5rem;
+      border-radius: 8px;
+      background: var(--success);
+      color: white;
+      font-weight: 500;
+      transform: translateY(100px);
+      opacity: 0;
+      transition: all 0.3s;
+    }
+
+    .toast.error { background: var(--danger); }
+    .toast.active { transform: translateY(0); opacity: 1; }
+
+    @media (max-width: 900px) {
+      .grid { grid-template-columns: 1fr; }
+      .sidebar { position: static; }
+    }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <header>
+      <h1>🤖 Oly Agent Admin</h1>
+      <button class="btn btn-primary" onclick="showNewAgentModal()">+ New Agent</button>
+    </header>
+
+    <div class="grid">
+      <aside class="sidebar">
+        <ul class="agent-list" id="agentList"></ul>
+      </aside>
+
+      <main class="main-content" id="mainContent">
+        <div class="empty-state">
+          <h3>Select an agent</h3>
+          <p>Choose an agent from the list or create a new one.</p>
+        </div>
+      </main>
+    </div>
+  </div>
+
+  <!-- New Agent Modal -->
+  <div class="modal-overlay" id="newAgentModal">
+    <div class="modal">
+      <h3>Create New Agent</h3>
+      <div class="form-group">
+        <label>Agent Type (ID)</label>
+        <input type="text" id="newAgentType" placeholder="e.g., support, sales, assistant">
+      </div>
+      <div class="form-group">
+        <label>Agent Name</label>
+        <input type="text" id="newAgentName" placeholder="Display name">
+      </div>
+      <div class="modal-actions">
+        <button class="btn btn-ghost" onclick="closeModal('newAgentModal')">Cancel</button>
+        <button class="btn btn-primary" onclick="createNewAgent()">Create</button>
+      </div>
+    </div>
+  </div>
+
+  <!-- Knowledge Modal -->
+  <div class="modal-overlay" id="knowledgeModal">
+    <div class="modal">
+      <h3 id="knowledgeModalTitle">Add Knowledge</h3>
+      <div class="form-group">
+        <label>Type</label>
+        <select id="knowledgeType">
+          <option value="website">🌐 Website Import</option>
+          <option value="file">📁 Upload File</option>
+          <option value="page">📝 Add Page</option>
+        </select>
+      </div>
+      <div class="form-group">
+        <label>Title (optional)</label>
+        <input type="text" id="knowledgeTitle" placeholder="Knowledge title">
+      </div>
+      <div class="form-group" id="knowledgeValueGroup">
+        <label id="knowledgeValueLabel">URL</label>
+        <input type="text" id="knowledgeValue" placeholder="https://...">
+        <textarea id="knowledgeValueText" style="display:none" placeholder="Enter content..."></textarea>
+        <input type="file" id="knowledgeFile" accept=".pdf,.docx,.md,.markdown,.csv,.txt" style="display:none">
+      </div>
+      <div id="crawlOptions" style="display:none">
+        <div class="form-group">
+          <label>Refresh Every (hours, blank = only on save or manual refresh)</label>
+          <input type="number" id="knowledgeRefreshHours" min="1" max="720" placeholder="e.g., 24">
+        </div>
+        <div class="form-group">
+          <label>Pages</label>
+          <select id="crawlEnabled">
+            <option value="">This page only</option>
+            <option value="crawl">Crawl linked pages</option>
+          </select>
+        </div>
+        <div id="crawlFields" style="display:none">
+          <div class="form-group">
+            <label>Max Depth (link hops)</label>
+            <input type="number" id="crawlMaxDepth" min="0" max="5" placeholder="2">
+          </div>
+          <div class="form-group">
+            <label>Max Pages</label>
+            <input type="number" id="crawlMaxPages" min="1" max="500" placeholder="25">
+          </div>
+          <div class="form-group">
+            <label>Include URL Patterns (one per line, * wildcard)</label>
+            <textarea id="crawlInclude" placeholder="/menu/*"></textarea>
+          </div>
+          <div class="form-group">
+            <label>Exclude URL Patterns (one per line)</label>
+            <textarea id="crawlExclude" placeholder="/blog/*"></textarea>
+          </div>
+          <div class="form-group">
+            <label><input type="checkbox" id="crawlSameOrigin" checked> Stay on this site</label>
+            <label><input type="checkbox" id="crawlSitemap" checked> Use sitemap.xml</label>
+            <label><input type="checkbox" id="crawlRobots" checked> Respect robots.txt</label>
+          </div>
+        </div>
+      </div>
+      <div class="modal-actions">
+        <button class="btn btn-ghost" onclick="closeModal('knowledgeModal')">Cancel</button>
+        <button class="btn btn-primary" onclick="addKnowledge()">Add</button>
+      </div>
+    </div>
+  </div>
+
+  <!-- Tool Modal -->
+  <div class="modal-overlay" id="toolModal">
+    <div class="modal">
+      <h3 id="toolModalTitle">Add Tool</h3>
+      <div class="form-group">
+        <label>Name</label>
+        <input type="text" id="toolName" placeholder="e.g., lookup_order">
+      </div>
+      <div class="form-group">
+        <label>Description (tells the model when to use it)</label>
+        <input type="text" id="toolDescription" placeholder="Look up an order by its number">
+      </div>
+      <div class="form-group">
+        <label>Method</label>
+        <select id="toolMethod">
+          <option>GET</option>
+          <option>POST</option>
+          <option>PUT</option>
+          <option>PATCH</option>
+          <option>DELETE</option>
+        </select>
+      </div>
+      <div class="form-group">
+        <label>URL ({{arg}} and {{env.NAME}} placeholders allowed)</label>
+        <input type="text" id="toolUrl" placeholder="https://api.example.com/orders/{{orderNumber}}">
+      </div>
+      <div class="form-group">
+        <label>Parameters (JSON schema)</label>
+        <textarea id="toolParameters" placeholder='{"type":"object","properties":{"orderNumber":{"type":"string"}},"required":["orderNumber"]}'></textarea>
+      </div>
+      <div class="form-group">
+        <label>Headers (JSON, optional)</label>
+        <input type="text" id="toolHeaders" placeholder='{"Authorization":"Bearer {{env.ORDERS_API_KEY}}"}'>
+      </div>
+      <div class="form-group">
+        <label>Timeout (ms)</label>
+        <input type="number" id="toolTimeout" value="10000" min="100" max="60000" step="100">
+      </div>
+      <div class="modal-actions">
+        <button class="btn btn-ghost" onclick="closeModal('toolModal')">Cancel</button>
+        <button class="btn btn-primary" onclick="saveTool()">Save</button>
+      </div>
+    </div>
+  </div>
+
+  <div class="toast" id="toast"></div>
+
+  <script>
+    let agents = [];
+    let currentAgent = null;
+    let currentKnowledge = [];
+    let currentTools = [];
+    // Text extraction status of uploaded files, by stored file name
+    let fileStatus = {};
+    // Snapshot status of website items, by URL
+    let websiteStatus = {};
+    let editingToolIndex = null;
+
+    // API helpers
+    async function api(method, path, body) {
+      const res = await fetch(path, {
+        method,
+        headers: body ? { 'Content-Type': 'application/json' } : {},
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({ error: res.statusText }));
+        throw new Error(err.error || 'Request failed');
+      }
+      return res.json();
+    }
+
+    function toast(msg, isError = false) {
+      const el = document.getElementById('toast');
+      el.textContent = msg;
+      el.className = 'toast' + (isError ? ' error' : '');
+      el.classList.add('active');
+      setTimeout(() => el.classList.remove('active'), 3000);
+    }
+
+    // Load agents
+    async function loadAgents() {
+      try {
+        agents = await api('GET', '/api/agents');
+        renderAgentList();
+      } catch (err) {
+        toast('Failed to load agents: ' + err.message, true);
+      }
+    }
+
+    function renderAgentList() {
+      const list = document.getElementById('agentList');
+      if (agents.length === 0) {
+        list.innerHTML = '<li style="padding: 1rem; color: var(--text-muted);">No agents yet</li>';
+        return;
+      }
+      list.innerHTML = agents.map(a => \`
+        <li class="agent-item \${currentAgent?.agentType === a.agentType ? 'active' : ''}" 
+            onclick="selectAgent('\${a.agentType}')">
+          <div>
+            <div class="name">\${a.config.agentName}</div>
+            <div class="type">\${a.agentType}</div>
+          </div>
+        </li>
+      \`).join('');
+    }
+
+    async function selectAgent(type) {
+      try {
+        const data = await api('GET', '/api/agents/' + type);
+        currentAgent = data;
+        currentKnowledge = data.config.knowledge || [];
+        currentTools = data.config.tools || [];
+        renderAgentForm();
+        renderAgentList();
+        loadFileStatus();
+        websiteStatus = {};
+        loadWebsiteStatus();
+      } catch (err) {
+        toast('Failed to load agent: ' + err.message, true);
+      }
+    }
+
+    function renderAgentForm() {
+      if (!currentAgent) {
+        document.getElementById('mainContent').innerHTML = \`
+          <div class="empty-state">
+            <h3>Select an agent</h3>
+            <p>Choose an agent from the list or create a new one.</p>
+          </div>
+        \`;
+        return;
+      }
+
+      const c = currentAgent.config;
+      document.getElementById('mainContent').innerHTML = \`
+        <div class="form-header">
+          <h2>\${c.agentName}</h2>
+          <div style="display: flex; gap: 0.5rem;">
+            <button class="btn btn-primary" onclick="saveAgent()">Save Changes</button>
+            <button class="btn btn-danger" onclick="deleteCurrentAgent()">Delete</button>
+          </div>
+        </div>
+
+        <div class="form-grid">
+          <div class="form-group">
+            <label>Agent Type (ID)</label>
+            <input type="text" id="agentType" value="\${currentAgent.agentType}" readonly style="opacity: 0.6;">
+          </div>
+          <div class="form-group">
+            <label>Agent Name</label>
+            <input type="text" id="agentName" value="\${c.agentName}">
+          </div>
+          <div class="form-group">
+            <label>Pipeline</label>
+            <select id="pipeline">
+              <option value="cascade" \${(c.pipeline || 'cascade') === 'cascade' ? 'selected' : ''}>Cascade (STT → LLM → Inworld voice)</option>
+              <option value="realtime" \${c.pipeline === 'realtime' ? 'selected' : ''}>Realtime (OpenAI speech-to-speech)</option>
+            </select>
+          </div>
+          <div class="form-group">
+            <label>Realtime Model / Voice (realtime pipeline only)</label>
+            <input type="text" id="realtimeModel" value="\${c.realtime?.model || ''}" placeholder="gpt-realtime">
+            <input type="text" id="realtimeVoice" value="\${c.realtime?.voice || ''}" placeholder="marin" style="margin-top: 0.5rem;">
+          </div>
+          <div class="form-group">
+            <label>Voice</label>
+            <input type="text" id="voice" value="\${c.voice}">
+          </div>
+          <div class="form-group">
+            <label>Model</label>
+            <select id="model">
+              <option value="gpt-4o" \${c.model === 'gpt-4o' ? 'selected' : ''}>gpt-4o</option>
+              <option value="gpt-4o-mini" \${c.model === 'gpt-4o-mini' ? 'selected' : ''}>gpt-4o-mini</option>
+              <option value="gpt-4-turbo" \${c.model === 'gpt-4-turbo' ? 'selected' : ''}>gpt-4-turbo</option>
+            </select>
+          </div>
+          <div class="form-group">
+            <label>TTS Model</label>
+            <input type="text" id="ttsModel" value="\${c.ttsModel}">
+          </div>
+          <div class="form-group">
+            <label>Temperature</label>
+            <input type="number" id="temperature" value="\${c.temperature}" step="0.1" min="0" max="2">
+          </div>
+          <div class="form-group">
+            <label>Speaking Rate</label>
+            <input type="number" id="speakingRate" value="\${c.speakingRate}" step="0.1" min="0.5" max="2">
+          </div>
+          <div class="form-group">
+            <label>Handoff Targets (agent types, comma-separated)</label>
+            <input type="text" id="handoffs" value="\${(c.handoffs || []).join(', ')}" placeholder="e.g., restaurant, logistics">
+          </div>
+          <div class="form-group">
+            <label>STT Provider</label>
+            <select id="sttProvider">
+              <option value="openai" \${(c.stt?.provider || 'openai') === 'openai' ? 'selected' : ''}>OpenAI</option>
+              <option value="livekit" \${c.stt?.provider === 'livekit' ? 'selected' : ''}>LiveKit Inference</option>
+            </select>
+          </div>
+          <div class="form-group">
+            <label>STT Model</label>
+            <input type="text" id="sttModel" value="\${c.stt?.model || ''}" placeholder="gpt-4o-transcribe / deepgram/nova-3">
+          </div>
+          <div class="form-group">
+            <label>STT Language</label>
+            <input type="text" id="sttLanguage" value="\${c.stt?.language || ''}" placeholder="en">
+          </div>
+          <div class="form-group">
+            <label>STT Keywords (comma-separated)</label>
+            <input type="text" id="sttKeywords" value="\${(c.stt?.keywords || []).join(', ')}" placeholder="e.g., tiramisu, SKU-4411">
+          </div>
+          <div class="form-group full">
+            <label>STT Prompt (optional context for transcription)</label>
+            <input type="text" id="sttPrompt" value="\${c.stt?.prompt || ''}" placeholder="Calls to an Italian restaurant about reservations and the menu.">
+          </div>
+          <div class="form-group full">
+            <label>Additional Languages (JSON, keyed by language code; STT Language is the primary)</label>
+            <textarea id="locales" placeholder='{"es": {"greeting": "¡Hola! ¿En qué puedo ayudarle?", "voice": "Diego"}}'>\${c.locales ? JSON.stringify(c.locales, null, 2) : ''}</textarea>
+          </div>
+          <div class="form-group full">
+            <label>Post-call Extraction (JSON, stored with each call session)</label>
+            <textarea id="extraction" placeholder='{"fields": {"customerName": {"description": "Caller name"}, "callbackRequested": {"type": "boolean", "required": true}}}'>\${c.extraction ? JSON.stringify(c.extraction, null, 2) : ''}</textarea>
+          </div>
+          <div class="form-group full">
+            <label>Provider Fallbacks (JSON, tried in order when a provider fails; cascade pipeline only)</label>
+            <textarea id="fallbacks" placeholder='{"llm": ["gpt-4o-mini"], "stt": [{"provider": "livekit", "model": "deepgram/nova-3"}], "tts": [{"provider": "openai", "voiceMap": {"Ashley": "coral"}}]}'>\${c.fallbacks ? JSON.stringify(c.fallbacks, null, 2) : ''}</textarea>
+          </div>
+          <div class="form-group full">
+            <label>Pronunciation (JSON: lexicon and number/URL reading rules for the voice)</label>
+            <textarea id="pronunciation" placeholder='{"lexicon": {"Oly": "Oh-lee"}, "rules": ["urls", "orderIds", "phoneNumbers", "prices", "dates"], "dateOrder": "mdy"}'>\${c.pronunciation ? JSON.stringify(c.pronunciation, null, 2) : ''}</textarea>
+          </div>
+          <div class="form-group full">
+            <label>Webhooks (JSON: signed callbacks for session.started, turn.completed, tool.invoked, session.ended)</label>
+            <textarea id="webhooks" placeholder='[{"url": "https://crm.example.com/hooks/calls", "events": ["session.ended"], "secret": "{{env.CRM_WEBHOOK_SECRET}}"}]'>\${c.webhooks ? JSON.stringify(c.webhooks, null, 2) : ''}</textarea>
+          </div>
+          <div class="form-group full">
+            <label>Business Hours (JSON: time zone, weekly hours, holidays and after-hours greeting/instructions)</label>
+            <textarea id="businessHours" placeholder='{"timezone": "America/New_York", "weekly": {"mon": [{"open": "11:00", "close": "22:00"}], "sat": [{"open": "17:00", "close": "01:00"}]}, "holidays": ["2025-12-25"], "closedGreeting": "Thanks for calling! We are closed right now. Our hours are {{agent.openingHours}}. Can I take a message?"}'>\${c.businessHours ? JSON.stringify(c.businessHours, null, 2) : ''}</textarea>
+          </div>
+          <div class="form-group full">
+            <label>Room Overrides (JSON: fields the room metadata may override per call, with bounds)</label>
+            <textarea id="roomOverrides" placeholder='{"voice": {"allowed": ["Olivia", "Ashley"]}, "speakingRate": {"min": 0.9, "max": 1.2}, "greeting": {"maxLength": 300}, "instructions": {}}'>\${c.roomOverrides ? JSON.stringify(c.roomOverrides, null, 2) : ''}</textarea>
+          </div>
+          <div class="form-group">
+            <label>Silence Timeout (seconds, blank = never)</label>
+            <input type="number" id="inactivityTimeout" value="\${c.inactivity?.timeoutSeconds ?? ''}" min="1" max="600" placeholder="e.g., 10">
+          </div>
+          <div class="form-group">
+            <label>Max Reprompts</label>
+            <input type="number" id="inactivityAttempts" value="\${c.inactivity?.maxAttempts ?? ''}" min="0" max="10" placeholder="number of reprompts">
+          </div>
+          <div class="form-group full">
+            <label>Silence Reprompts (one per line)</label>
+            <textarea id="inactivityReprompts" placeholder="Are you still there?">\${(c.inactivity?.reprompts || []).join('\\n')}</textarea>
+          </div>
+          <div class="form-group full">
+            <label>Goodbye Before Hanging Up</label>
+            <input type="text" id="inactivityGoodbye" value="\${c.inactivity?.goodbye || ''}" placeholder="I haven't heard from you, so I'll end the call now. Goodbye!">
+          </div>
+          <div class="form-group">
+            <label>Max Call Length (seconds, blank = unlimited)</label>
+            <input type="number" id="maxDurationSeconds" value="\${c.maxDuration?.maxSeconds ?? ''}" min="1" placeholder="e.g., 900">
+          </div>
+          <div class="form-group">
+            <label>Wrap-up Warning After (seconds)</label>
+            <input type="number" id="maxDurationWarn" value="\${c.maxDuration?.warnAfterSeconds ?? ''}" min="1" placeholder="e.g., 780">
+          </div>
+          <div class="form-group full">
+            <label>Wrap-up Instructions (optional)</label>
+            <input type="text" id="maxDurationWrapUp" value="\${c.maxDuration?.wrapUpInstructions || ''}" placeholder="The call is close to its time limit. Briefly wrap up.">
+          </div>
+          <div class="form-group full">
+            <label>Closing Line at the Limit</label>
+            <input type="text" id="maxDurationClosing" value="\${c.maxDuration?.closingLine || ''}" placeholder="We've reached the time limit for this call. Thanks for calling, goodbye!">
+          </div>
+          <div class="form-group">
+            <label>Record Calls</label>
+            <select id="recordingEnabled">
+              <option value="false" \${c.recording?.enabled ? '' : 'selected'}>No</option>
+              <option value="true" \${c.recording?.enabled ? 'selected' : ''}>Yes</option>
+            </select>
+          </div>
+          <div class="form-group full">
+            <label>Recording Disclosure (spoken before recording starts)</label>
+            <input type="text" id="recordingDisclosure" value="\${c.recording?.consentDisclosure || ''}" placeholder="This call may be recorded for quality and training purposes.">
+          </div>
+          <div class="form-group">
+            <label>Remember Callers</label>
+            <select id="memoryEnabled">
+              <option value="false" \${c.memory?.enabled ? '' : 'selected'}>No</option>
+              <option value="true" \${c.memory?.enabled ? 'selected' : ''}>Yes</option>
+            </select>
+          </div>
+          <div class="form-group">
+            <label>Max Remembered Facts</label>
+            <input type="number" id="memoryMaxFacts" value="\${c.memory?.maxFacts ?? ''}" min="1" max="100" placeholder="20">
+          </div>
+          <div class="form-group full">
+            <label>What to Remember About Callers</label>
+            <input type="text" id="memoryInstructions" value="\${c.memory?.instructions || ''}" placeholder="shipment numbers, delivery address, open complaints">
+          </div>
+          <div class="form-group">
+            <label>Min Pause Before Replying (ms)</label>
+            <input type="number" id="turnMinEndpointingDelay" value="\${c.turnTaking?.minEndpointingDelayMs ?? ''}" min="0" max="10000" placeholder="500">
+          </div>
+          <div class="form-group">
+            <label>Max Pause Before Replying (ms)</label>
+            <input type="number" id="turnMaxEndpointingDelay" value="\${c.turnTaking?.maxEndpointingDelayMs ?? ''}" min="0" max="30000" placeholder="6000">
+          </div>
+          <div class="form-group">
+            <label>Caller Can Interrupt</label>
+            <select id="turnAllowInterruptions">
+              <option value="" \${c.turnTaking?.allowInterruptions === undefined ? 'selected' : ''}>Default</option>
+              <option value="true" \${c.turnTaking?.allowInterruptions === true ? 'selected' : ''}>Yes</option>
+              <option value="false" \${c.turnTaking?.allowInterruptions === false ? 'selected' : ''}>No</option>
+            </select>
+          </div>
+          <div class="form-group">
+            <label>Caller Can Interrupt Greeting</label>
+            <select id="turnInterruptibleGreeting">
+              <option value="" \${c.turnTaking?.interruptibleGreeting === undefined ? 'selected' : ''}>Default</option>
+              <option value="true" \${c.turnTaking?.interruptibleGreeting === true ? 'selected' : ''}>Yes</option>
+              <option value="false" \${c.turnTaking?.interruptibleGreeting === false ? 'selected' : ''}>No</option>
+            </select>
+          </div>
+          <div class="form-group">
+            <label>Min Interruption Speech (ms)</label>
+            <input type="number" id="turnMinInterruptionDuration" value="\${c.turnTaking?.minInterruptionDurationMs ?? ''}" min="0" max="10000" placeholder="500">
+          </div>
+          <div class="form-group">
+            <label>Min Interruption Words</label>
+            <input type="number" id="turnMinInterruptionWords" value="\${c.turnTaking?.minInterruptionWords ?? ''}" min="0" max="20" placeholder="0">
+          </div>
+          <div class="form-group">
+            <label>Turn Detector Model</label>
+            <select id="turnDetector">
+              <option value="" \${c.turnTaking?.turnDetector === undefined ? 'selected' : ''}>Default</option>
+              <option value="true" \${c.turnTaking?.turnDetector === true ? 'selected' : ''}>Yes</option>
+              <option value="false" \${c.turnTaking?.turnDetector === false ? 'selected' : ''}>No</option>
+            </select>
+          </div>
+          <div class="form-group">
+            <label>Preemptive Generation</label>
+            <select id="turnPreemptiveGeneration">
+              <option value="" \${c.turnTaking?.preemptiveGeneration === undefined ? 'selected' : ''}>Default</option>
+              <option value="true" \${c.turnTaking?.preemptiveGeneration === true ? 'selected' : ''}>Yes</option>
+              <option value="false" \${c.turnTaking?.preemptiveGeneration === false ? 'selected' : ''}>No</option>
+            </select>
+          </div>
+          <div class="form-group full">
+            <label>Greeting</label>
+            <textarea id="greeting">\${c.greeting}</textarea>
+          </div>
+          <div class="form-group full">
+            <label>Instructions</label>
+            <textarea id="instructions" style="min-height: 200px;">\${c.instructions}</textarea>
+          </div>
+        </div>
+
+        <div class="knowledge-section">
+          <div class="knowledge-header">
+            <h3>📚 Knowledge</h3>
+            <div class="knowledge-actions">
+              <button class="btn btn-ghost" onclick="openKnowledgeModal('website')">🌐 Website</button>
+              <button class="btn btn-ghost" onclick="openKnowledgeModal('file')">📁 File</button>
+              <button class="btn btn-ghost" onclick="openKnowledgeModal('page')">📝 Page</button>
+              <button class="btn btn-ghost" onclick="refreshKnowledge()" title="Re-fetch saved website items now">🔄 Refresh</button>
+            </div>
+          </div>
+          <div class="knowledge-list" id="knowledgeList"></div>
+          <div class="form-grid" style="margin-top: 1rem;">
+            <div class="form-group">
+              <label>Knowledge Mode</label>
+              <select id="knowledgeMode">
+                <option value="auto" \${(c.knowledgeSearch?.mode || 'auto') === 'auto' ? 'selected' : ''}>Auto (search when large)</option>
+                <option value="prompt" \${c.knowledgeSearch?.mode === 'prompt' ? 'selected' : ''}>Always in prompt</option>
+                <option value="search" \${c.knowledgeSearch?.mode === 'search' ? 'selected' : ''}>Always search tool</option>
+              </select>
+            </div>
+            <div class="form-group">
+              <label>Passages per Search</label>
+              <input type="number" id="knowledgeTopK" value="\${c.knowledgeSearch?.topK ?? ''}" min="1" max="20" placeholder="4">
+            </div>
+          </div>
+        </div>
+
+        <div class="knowledge-section">
+          <div class="knowledge-header">
+            <h3>🛠️ Tools</h3>
+            <div class="knowledge-actions">
+              <button class="btn btn-ghost" onclick="openToolModal()">+ HTTP Tool</button>
+            </div>
+          </div>
+          <div class="knowledge-list" id="toolList"></div>
+        </div>
+      \`;
+
+      renderKnowledgeList();
+      renderToolList();
+    }
+
+    function renderToolList() {
+      const list = document.getElementById('toolList');
+      if (!list) return;
+
+      if (currentTools.length === 0) {
+        list.innerHTML = '<div style="color: var(--text-muted); padding: 1rem;">No tools. Add HTTP endpoints the agent can call, e.g. to look up orders.</div>';
+        return;
+      }
+
+      list.innerHTML = currentTools.map((t, i) => \`
+        <div class="knowledge-item">
+          <span class="type-badge tool">\${t.method || 'GET'}</span>
+          <div class="content" style="cursor: pointer;" onclick="openToolModal(\${i})">
+            <div class="title">\${t.name}</div>
+            <div class="value">\${t.url}</div>
+          </div>
+          <button class="remove-btn" onclick="removeTool(\${i})">×</button>
+        </div>
+      \`).join('');
+    }
+
+    function removeTool(index) {
+      currentTools.splice(index, 1);
+      renderToolList();
+    }
+
+    function openToolModal(index) {
+      editingToolIndex = index ?? null;
+      const t = editingToolIndex === null ? {} : currentTools[editingToolIndex];
+      document.getElementById('toolModalTitle').textContent = editingToolIndex === null ? 'Add Tool' : 'Edit Tool';
+      document.getElementById('toolName').value = t.name || '';
+      document.getElementById('toolDescription').value = t.description || '';
+      document.getElementById('toolMethod').value = t.method || 'GET';
+      document.getElementById('toolUrl').value = t.url || '';
+      document.getElementById('toolParameters').value = t.parameters ? JSON.stringify(t.parameters, null, 2) : '';
+      document.getElementById('toolHeaders').value = t.headers ? JSON.stringify(t.headers) : '';
+      document.getElementById('toolTimeout').value = t.timeoutMs || 10000;
+      document.getElementById('toolModal').classList.add('active');
+    }
+
+    function parseList(raw) {
+      const items = raw.split(',').map(v => v.trim()).filter(Boolean);
+      return items.length > 0 ? items : undefined;
+    }
+
+    function parseInactivity() {
+      const timeout = document.getElementById('inactivityTimeout').value;
+      if (!timeout) return undefined;
+      const attempts = document.getElementById('inactivityAttempts').value;
+      const reprompts = document.getElementById('inactivityReprompts').value
+        .split('\\n').map(v => v.trim()).filter(Boolean);
+      return {
+        timeoutSeconds: parseFloat(timeout),
+        reprompts: reprompts.length > 0 ? reprompts : undefined,
+        maxAttempts: attempts ? parseInt(attempts, 10) : undefined,
+        goodbye: document.getElementById('inactivityGoodbye').value.trim() || undefined,
+      };
+    }
+
+    function parseMaxDuration() {
+      const max = document.getElementById('maxDurationSeconds').value;
+      if (!max) return undefined;
+      const warn = document.getElementById('maxDurationWarn').value;
+      return {
+        maxSeconds: parseInt(max, 10),
+        warnAfterSeconds: warn ? parseInt(warn, 10) : undefined,
+        wrapUpInstructions: document.getElementById('maxDurationWrapUp').value.trim() || undefined,
+        closingLine: document.getElementById('maxDurationClosing').value.trim() || undefined,
+      };
+    }
+
+    function parseRecording() {
+      const enabled = document.getElementById('recordingEnabled').value === 'true';
+      const consentDisclosure = document.getElementById('recordingDisclosure').value.trim() || undefined;
+      return enabled || consentDisclosure ? { enabled, consentDisclosure } : undefined;
+    }
+
+    function parseMemory() {
+      const enabled = document.getElementById('memoryEnabled').value === 'true';
+      const instructions = document.getElementById('memoryInstructions').value.trim() || undefined;
+      const maxFacts = parseInt(document.getElementById('memoryMaxFacts').value, 10) || undefined;
+      return enabled || instructions || maxFacts ? { enabled, instructions, maxFacts } : undefined;
+    }
+
+    function parseTurnTaking() {
+      const number = (id) => {
+        const raw = document.getElementById(id).value.trim();
+        return raw === '' ? undefined : Number(raw);
+      };
+      const flag = (id) => {
+        const raw = document.getElementById(id).value;
+        return raw === '' ? undefined : raw === 'true';
+      };
+      const turnTaking = {
+        minEndpointingDelayMs: number('turnMinEndpointingDelay'),
+        maxEndpointingDelayMs: number('turnMaxEndpointingDelay'),
+        allowInterruptions: flag('turnAllowInterruptions'),
+        interruptibleGreeting: flag('turnInterruptibleGreeting'),
+        minInterruptionDurationMs: number('turnMinInterruptionDuration'),
+        minInterruptionWords: number('turnMinInterruptionWords'),
+        turnDetector: flag('turnDetector'),
+        preemptiveGeneration: flag('turnPreemptiveGeneration'),
+      };
+      return Object.values(turnTaking).some((v) => v !== undefined) ? turnTaking : undefined;
+    }
+
+    function parseJsonField(id, label) {
+      const raw = document.getElementById(id).value.trim();
+      if (!raw) return undefined;
+      try {
+        return JSON.parse(raw);
+      } catch {
+        throw new Error(label + ' must be valid JSON');
+      }
+    }
+
+    function saveTool() {
+      const name = document.getElementById('toolName').value.trim();
+      const description = document.getElementById('toolDescription').value.trim();
+      const url = document.getElementById('toolUrl').value.trim();
+      if (!name || !description || !url) return toast('Name, description and URL are required', true);
+
+      let parameters, headers;
+      try {
+        parameters = parseJsonField('toolParameters', 'Parameters');
+        headers = parseJsonField('toolHeaders', 'Headers');
+      } catch (err) {
+        return toast(err.message, true);
+      }
+
+      const tool = {
+        name,
+        description,
+        method: document.getElementById('toolMethod').value,
+        url,
+        parameters,
+        headers,
+        timeoutMs: parseInt(document.getElementById('toolTimeout').value, 10) || undefined,
+      };
+
+      if (editingToolIndex === null) currentTools.push(tool);
+      else currentTools[editingToolIndex] = tool;
+      renderToolList();
+      closeModal('toolModal');
+    }
+
+    function renderKnowledgeList() {
+      const list = document.getElementById('knowledgeList');
+      if (!list) return;
+
+      if (currentKnowledge.length === 0) {
+        list.innerHTML = '<div style="color: var(--text-muted); padding: 1rem;">No knowledge items. Add business info the agent can use to answer questions.</div>';
+        return;
+      }
+
+      list.innerHTML = currentKnowledge.map((k, i) => \`
+        <div class="knowledge-item">
+          <span class="type-badge \${k.type}">\${k.type}</span>
+          <div class="content">
+            \${k.title ? \`<div class="title">\${k.title}</div>\` : ''}
+            <div class="value">\${k.value.length > 200 ? k.value.slice(0, 200) + '...' : k.value}</div>
+            \${k.type === 'file' ? fileStatusLine(k) : ''}
+            \${k.type === 'website' ? websiteStatusLine(k) : ''}
+            \${k.crawl ? \`<div class="value">Crawl: up to \${k.crawl.maxPages ?? 25} pages, depth \${k.crawl.maxDepth ?? 2}</div>\` : ''}
+          </div>
+          <button class="remove-btn" onclick="removeKnowledge(\${i})">×</button>
+        </div>
+      \`).join('');
+    }
+
+    async function loadFileStatus() {
+      const files = currentKnowledge.filter(k => k.type === 'file').map(k => k.value.split('/').pop());
+      if (files.length === 0) return;
+      try {
+        const statuses = await api('GET', '/api/knowledge-files?files=' + encodeURIComponent(files.join(',')));
+        statuses.forEach(st => { fileStatus[st.filename] = st; });
+        renderKnowledgeList();
+      } catch (err) {
+        toast('Failed to load file status: ' + err.message, true);
+      }
+    }
+
+    function fileStatusLine(k) {
+      const st = fileStatus[k.value.split('/').pop()];
+      if (!st) return '';
+      return st.error
+        ? \`<div class="value" style="color: var(--danger);">⚠ \${st.error}</div>\`
+        : \`<div class="value">\${st.chars.toLocaleString()} characters extracted</div>\`;
+    }
+
+    async function loadWebsiteStatus() {
+      if (!currentAgent || !currentKnowledge.some(k => k.type === 'website')) return;
+      try {
+        setWebsiteStatus(await api('GET', '/api/agents/' + currentAgent.agentType + '/knowledge'));
+      } catch (err) {
+        toast('Failed to load website status: ' + err.message, true);
+      }
+    }
+
+    function setWebsiteStatus(statuses) {
+      (statuses || []).forEach(st => { websiteStatus[st.url] = st; });
+      renderKnowledgeList();
+    }
+
+    function websiteStatusLine(k) {
+      const st = websiteStatus[k.value];
+      if (!st) return '';
+      const parts = [];
+      if (st.fetchedAt) {
+        parts.push(\`<div class="value">\${st.pages} page(s), \${st.chars.toLocaleString()} characters, fetched \${new Date(st.fetchedAt).toLocaleString()}</div>\`);
+      } else if (!st.error) {
+        parts.push('<div class="value">Not fetched yet (saved agents are fetched automatically)</div>');
+      }
+      if (st.error) parts.push(\`<div class="value" style="color: var(--danger);">⚠ Last refresh failed: \${st.error}</div>\`);
+      if (k.refreshIntervalHours) parts.push(\`<div class="value">Refreshes every \${k.refreshIntervalHours}h</div>\`);
+      return parts.join('');
+    }
+
+    async function refreshKnowledge() {
+      if (!currentAgent) return;
+      toast('Refreshing website knowledge...');
+      try {
+        const statuses = await api('POST', '/api/agents/' + currentAgent.agentType + '/knowledge/refresh');
+        setWebsiteStatus(statuses);
+        const failed = statuses.filter(st => st.error).length;
+        toast(failed ? failed + ' website(s) failed to refresh' : 'Website knowledge refreshed', failed > 0);
+      } catch (err) {
+        toast('Failed to refresh: ' + err.message, true);
+      }
+    }
+
+    function removeKnowledge(index) {
+      currentKnowledge.splice(index, 1);
+      renderKnowledgeList();
+    }
+
+    function openKnowledgeModal(type) {
+      document.getElementById('knowledgeType').value = type;
+      updateKnowledgeModalFields();
+      document.getElementById('knowledgeTitle').value = '';
+      document.getElementById('knowledgeValue').value = '';
+      document.getElementById('knowledgeValueText').value = '';
+      document.getElementById('crawlEnabled').value = '';
+      document.getElementById('knowledgeRefreshHours').value = '';
+      ['crawlMaxDepth', 'crawlMaxPages', 'crawlInclude', 'crawlExclude'].forEach(id => { document.getElementById(id).value = ''; });
+      ['crawlSameOrigin', 'crawlSitemap', 'crawlRobots'].forEach(id => { document.getElementById(id).checked = true; });
+      updateCrawlFields();
+      document.getElementById('knowledgeModal').classList.add('active');
+    }
+
+    document.getElementById('knowledgeType').addEventListener('change', updateKnowledgeModalFields);
+    document.getElementById('crawlEnabled').addEventListener('change', updateCrawlFields);
+
+    function updateCrawlFields() {
+      const enabled = document.getElementById('crawlEnabled').value === 'crawl';
+      document.getElementById('crawlFields').style.display = enabled ? 'block' : 'none';
+    }
+
+    function parseCrawl() {
+      if (document.getElementById('crawlEnabled').value !== 'crawl') return undefined;
+      const lines = id => document.getElementById(id).value.split('\\n').map(l => l.trim()).filter(Boolean);
+      const int = id => {
+        const raw = document.getElementById(id).value;
+        return raw === '' ? undefined : parseInt(raw, 10);
+      };
+      const include = lines('crawlInclude');
+      const exclude = lines('crawlExclude');
+      return {
+        maxDepth: int('crawlMaxDepth'),
+        maxPages: int('crawlMaxPages'),
+        sameOrigin: document.getElementById('crawlSameOrigin').checked,
+        sitemap: document.getElementById('crawlSitemap').checked,
+        respectRobots: document.getElementById('crawlRobots').checked,
+        include: include.length ? include : undefined,
+        exclude: exclude.length ? exclude : undefined,
+      };
+    }
+
+    function updateKnowledgeModalFields() {
+      const type = document.getElementById('knowledgeType').value;
+      const labelEl = document.getElementById('knowledgeValueLabel');
+      const inputEl = document.getElementById('knowledgeValue');
+      const textEl = document.getElementById('knowledgeValueText');
+      const fileEl = document.getElementById('knowledgeFile');
+
+      inputEl.style.display = 'none';
+      textEl.style.display = 'none';
+      fileEl.style.display = 'none';
+      document.getElementById('crawlOptions').style.display = type === 'website' ? 'block' : 'none';
+
+      if (type === 'website') {
+        labelEl.textContent = 'URL';
+        inputEl.placeholder = 'https://example.com/about';
+        inputEl.style.display = 'block';
+      } else if (type === 'file') {
+        labelEl.textContent = 'File';
+        fileEl.style.display = 'block';
+      } else {
+        labelEl.textContent = 'Content';
+        textEl.placeholder = 'Enter knowledge content...';
+        textEl.style.display = 'block';
+      }
+    }
+
+    async function addKnowledge() {
+      const type = document.getElementById('knowledgeType').value;
+      const title = document.getElementById('knowledgeTitle').value.trim();
+      let value = '';
+
+      if (type === 'website') {
+        value = document.getElementById('knowledgeValue').value.trim();
+        if (!value) return toast('Please enter a URL', true);
+      } else if (type === 'file') {
+        const fileInput = document.getElementById('knowledgeFile');
+        const file = fileInput.files[0];
+        if (!file) return toast('Please select a file', true);
+
+        // Upload file
+        const formData = new FormData();
+        formData.append('file', file);
+
+        try {
+          const res = await fetch('/api/upload', { method: 'POST', body: formData });
+          const data = await res.json();
+          if (!res.ok) throw new Error(data.error || res.statusText);
+          value = data.path;
+          fileStatus[data.filename] = { filename: data.filename, chars: data.chars, error: data.extractionError || null };
+          if (data.extractionError) {
+            toast('Uploaded, but no text could be extracted: ' + data.extractionError, true);
+          }
+        } catch (err) {
+          return toast('Failed to upload file: ' + err.message, true);
+        }
+      } else {
+        value = document.getElementById('knowledgeValueText').value.trim();
+        if (!value) return toast('Please enter content', true);
+      }
+
+      const crawl = type === 'website' ? parseCrawl() : undefined;
+      const refreshHours = type === 'website' ? document.getElementById('knowledgeRefreshHours').value : '';
+      currentKnowledge.push({
+        type,
+        title: title || undefined,
+        value,
+        crawl,
+        refreshIntervalHours: refreshHours === '' ? undefined : Number(refreshHours),
+      });
+      renderKnowledgeList();
+      closeModal('knowledgeModal');
+    }
+
+    function parseRealtime() {
+      const realtime = {
+        ...currentAgent.config.realtime,
+        model: document.getElementById('realtimeModel').value.trim() || undefined,
+        voice: document.getElementById('realtimeVoice').value.trim() || undefined,
+      };
+      return Object.values(realtime).some(v => v !== undefined) ? realtime : undefined;
+    }
+
+    async function saveAgent() {
+      if (!currentAgent) return;
+
+      let locales, extraction, fallbacks, pronunciation, webhooks, businessHours, roomOverrides;
+      try {
+        locales = parseJsonField('locales', 'Additional Languages');
+        extraction = parseJsonField('extraction', 'Post-call Extraction');
+        fallbacks = parseJsonField('fallbacks', 'Provider Fallbacks');
+        pronunciation = parseJsonField('pronunciation', 'Pronunciation');
+        webhooks = parseJsonField('webhooks', 'Webhooks');
+        businessHours = parseJsonField('businessHours', 'Business Hours');
+        roomOverrides = parseJsonField('roomOverrides', 'Room Overrides');
+      } catch (err) {
+        return toast(err.message, true);
+      }
+
+      // Start from the loaded config so settings without form fields survive a save
+      const config = {
+        ...currentAgent.config,
+        agentName: document.getElementById('agentName').value.trim(),
+        instructions: document.getElementById('instructions').value.trim(),
+        greeting: document.getElementById('greeting').value.trim(),
+        voice: document.getElementById('voice').value.trim(),
+        model: document.getElementById('model').value,
+        ttsModel: document.getElementById('ttsModel').value.trim(),
+        temperature: parseFloat(document.getElementById('temperature').value),
+        speakingRate: parseFloat(document.getElementById('speakingRate').value),
+        pipeline: document.getElementById('pipeline').value,
+        realtime: parseRealtime(),
+        knowledge: currentKnowledge.length > 0 ? currentKnowledge : undefined,
+        knowledgeSearch: {
+          ...currentAgent.config.knowledgeSearch,
+          mode: document.getElementById('knowledgeMode').value,
+          topK: parseInt(document.getElementById('knowledgeTopK').value, 10) || undefined,
+        },
+        tools: currentTools.length > 0 ? currentTools : undefined,
+        handoffs: parseList(document.getElementById('handoffs').value),
+        locales,
+        extraction,
+        inactivity: parseInactivity(),
+        maxDuration: parseMaxDuration(),
+        recording: parseRecording(),
+        memory: parseMemory(),
+        turnTaking: parseTurnTaking(),
+        fallbacks,
+        pronunciation,
+        webhooks,
+        businessHours,
+        roomOverrides,
+        stt: {
+          provider: document.getElementById('sttProvider').value,
+          model: document.getElementById('sttModel').value.trim() || undefined,
+          language: document.getElementById('sttLanguage').value.trim() || undefined,
+          keywords: parseList(document.getElementById('sttKeywords').value),
+          prompt: document.getElementById('sttPrompt').value.trim() || undefined,
+        },
+      };
+
+      try {
+        const result = await api('POST', '/api/agents', { agentType: currentAgent.agentType, config });
+        setWebsiteStatus(result.knowledge);
+        if (result.warnings) {
+          toast('Saved with warnings: ' + result.warnings.join('; '), true);
+        } else {
+          toast('Agent saved successfully!');
+        }
+        await loadAgents();
+      } catch (err) {
+        toast('Failed to save: ' + err.message, true);
+      }
+    }
+
+    async function deleteCurrentAgent() {
+      if (!currentAgent) return;
+      if (!confirm('Are you sure you want to delete this agent?')) return;
+
+      try {
+        await api('DELETE', '/api/agents/' + currentAgent.agentType);
+        toast('Agent deleted');
+        currentAgent = null;
+        currentKnowledge = [];
+        currentTools = [];
+        await loadAgents();
+        renderAgentForm();
+      } catch (err) {
+        toast('Failed to delete: ' + err.message, true);
+      }
+    }
+
+    // New agent modal
+    function showNewAgentModal() {
+      document.getElementById('newAgentType').value = '';
+      document.getElementById('newAgentName').value = '';
+      document.getElementById('newAgentModal').classList.add('active');
+    }
+
+    async function createNewAgent() {
+      const agentType = document.getElementById('newAgentType').value.trim().toLowerCase().replace(/\\s+/g, '-');
+      const agentName = document.getElementById('newAgentName').value.trim();
+
+      if (!agentType || !agentName) {
+        return toast('Please fill in all fields', true);
+      }
+
+      const config = {
+        agentName,
+        instructions: 'You are a helpful voice AI assistant.',
+        greeting: 'Hello! How can I help you today?',
+        voice: 'Alex',
+        model: 'gpt-4o',
+        ttsModel: 'inworld-tts-1',
+        temperature: 1.0,
+        speakingRate: 1.0,
+      };
+
+      try {
+        await api('POST', '/api/agents', { agentType, config });
+        closeModal('newAgentModal');
+        toast('Agent created!');
+        await loadAgents();
+        await selectAgent(agentType);
+      } catch (err) {
+        toast('Failed to create: ' + err.message, true);
+      }
+    }
+
+    function closeModal(id) {
+      document.getElementById(id).classList.remove('active');
+    }
+
+    // Close modal on outside click
+    document.querySelectorAll('.modal-overlay').forEach(el => {
+      el.addEventListener('click', e => {
+        if (e.target === el) closeModal(el.id);
+      });
+    });
+
+    // Init
+    loadAgents();
+  </script>
+</body>
+</html>`;
@@ -0,0 +1,53 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+
+import { AgentScriptSchema, checkReply } from './agent-script.js';
+
+const toolCalls = [{ name: 'book_table', args: { partySize: 4, time: '19:30', name: 'Maria' } }];
+
+describe('Agent scripts', () => {
+  it('should accept single values and plain mock replies', () => {
+    const script = AgentScriptSchema.parse({
+      turns: [{ user: 'Hi', mock: 'Hello!', expect: { contains: 'hello', toolCalled: { name: 'greet' } } }],
+    });
+    assert.strictEqual(script.llm, 'agent');
+    assert.deepStrictEqual(script.turns[0]?.mock, { content: 'Hello!' });
+    assert.deepStrictEqual(script.turns[0]?.expect, {
+      contains: ['hello'],
+      toolCalled: [{ name: 'greet', args: {} }],
+    });
+    assert.throws(() => AgentScriptSchema.parse({ turns: [{ user: 'Hi', expect: { contain: 'x' } }] }));
+  });
+
+  it('should check text ignoring case, and patterns', () => {
+    const reply = 'A table for four at 7:30 PM. Shall I confirm?';
+    assert.deepStrictEqual(checkReply({ contains: ['TABLE FOR FOUR'], matches: ['/7:30 pm/i'] }, reply, []), []);
+    assert.deepStrictEqual(checkReply({ notContains: ['confirm'], matches: ['^Table'] }, reply, []), [
+      'expected reply not to contain "confirm"',
+      'expected reply to match ^Table',
+    ]);
+  });
+
+  it('should match tool calls on the listed arguments only', () => {
+    assert.deepStrictEqual(
+      checkReply({ toolCalled: [{ name: 'book_table', args: { partySize: 4 } }] }, '', toolCalls),
+      [],
+    );
+    assert.deepStrictEqual(
+      checkReply(
+        {
+          toolCalled: [
+            { name: 'book_table', args: { partySize: 2 } },
+            { name: 'cancel_booking', args: {} },
+          ],
+        },
+        '',
+        toolCalls,
+      ),
+      [
+        'expected book_table with {"partySize":2}, got {"partySize":4,"time":"19:30","name":"Maria"}',
+        'expected a call to cancel_booking',
+      ],
+    );
+  });
+});
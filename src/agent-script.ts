@@ -0,0 +1,269 @@
+/**
+ * Scripted conversation tests
+ *
+ * A script plays user turns against an agent config as a text chat, with the agent's real
+ * instructions, knowledge and tools, and checks every reply: text it must or must not contain,
+ * regular expressions it must match, and tools it must call with given arguments. The agent's
+ * own `model` answers by default; `llm: mock` replays replies written in the script so the
+ * test runs offline. Run with `pnpm agent:test <agentType> <script.yaml>`.
+ */
+import { isDeepStrictEqual } from 'node:util';
+
+import {
+  type APIConnectOptions,
+  DEFAULT_API_CONNECT_OPTIONS,
+  llm,
+  voice,
+} from '@livekit/agents';
+import { z } from 'zod';
+
+import { createAssistant } from './assistant.js';
+import type { AgentConfig } from './config/types.js';
+
+// A single string or a list of them
+const StringsSchema = z
+  .union([z.string(), z.array(z.string())])
+  .transform((value) => (Array.isArray(value) ? value : [value]));
+
+const ToolCallSchema = z.object({
+  name: z.string().min(1),
+  args: z.record(z.unknown()).default({}),
+});
+
+const MockReplyObjectSchema = z
+  .object({ content: z.string().optional(), toolCalls: z.array(ToolCallSchema).optional() })
+  .strict();
+export type MockReply = z.infer<typeof MockReplyObjectSchema>;
+
+// A plain string is a text reply
+const MockReplySchema = z.union([
+  z.string().transform((content): MockReply => ({ content })),
+  MockReplyObjectSchema,
+]);
+
+export const ReplyExpectationSchema = z
+  .object({
+    // Case-insensitive substrings of the reply
+    contains: StringsSchema.optional(),
+    notContains: StringsSchema.optional(),
+    // Regular expressions, either plain ("\\d+ people") or with flags ("/table for \\d/i")
+    matches: StringsSchema.optional(),
+    // Tools called in this turn; `args` lists the arguments to check, others are ignored
+    toolCalled: z
+      .union([ToolCallSchema, z.array(ToolCallSchema)])
+      .transform((value) => (Array.isArray(value) ? value : [value]))
+      .optional(),
+  })
+  .strict();
+export type ReplyExpectation = z.infer<typeof ReplyExpectationSchema>;
+
+export const AgentScriptSchema = z
+  .object({
+    description: z.string().optional(),
+    // Model answering the turns: the agent's own, or `mock` to replay each turn's `mock` replies
+    llm: z.enum(['agent', 'mock']).default('agent'),
+    language: z.string().optional(),
+    // {{caller.*}} and {{metadata.*}} values, as if set by the participant and room
+    variables: z
+      .object({
+        caller: z.record(z.string()).optional(),
+        metadata: z.record(z.unknown()).optional(),
+      })
+      .strict()
+      .optional(),
+    turns: z
+      .array(
+        z
+          .object({
+            user: z.string().min(1),
+            // One reply per model call in this turn, e.g. a tool call and then the answer
+            mock: z.union([MockReplySchema, z.array(MockReplySchema)]).optional(),
+            expect: ReplyExpectationSchema.optional(),
+          })
+          .strict(),
+      )
+      .min(1),
+  })
+  .strict();
+export type AgentScript = z.infer<typeof AgentScriptSchema>;
+
+export type ObservedToolCall = { name: string; args: Record<string, unknown> };
+
+export type TurnResult = {
+  user: string;
+  reply: string;
+  toolCalls: ObservedToolCall[];
+  // Why the turn failed; empty when every expectation held
+  failures: string[];
+};
+
+/**
+ * Replays scripted replies, one per `chat` call, in the order they were queued. Without a
+ * reply left it answers with nothing, which fails any expectation about the text.
+ */
+export class ScriptedLLM extends llm.LLM {
+  private replies: MockReply[] = [];
+
+  label(): string {
+    return 'scripted-llm';
+  }
+
+  /** Replies for the next turn; leftovers from the previous turn are dropped. */
+  queue(replies: MockReply[]): void {
+    this.replies = [...replies];
+  }
+
+  nextReply(): MockReply | undefined {
+    return this.replies.shift();
+  }
+
+  chat({
+    chatCtx,
+    toolCtx,
+    connOptions = DEFAULT_API_CONNECT_OPTIONS,
+  }: {
+    chatCtx: llm.ChatContext;
+    toolCtx?: llm.ToolContext;
+    connOptions?: APIConnectOptions;
+  }): llm.LLMStream {
+    return new ScriptedLLMStream(this, { chatCtx, ...(toolCtx ? { toolCtx } : {}), connOptions });
+  }
+}
+
+class ScriptedLLMStream extends llm.LLMStream {
+  private readonly scripted: ScriptedLLM;
+
+  constructor(
+    scripted: ScriptedLLM,
+    opts: { chatCtx: llm.ChatContext; toolCtx?: llm.ToolContext; connOptions: APIConnectOptions },
+  ) {
+    super(scripted, opts);
+    this.scripted = scripted;
+  }
+
+  protected async run(): Promise<void> {
+    const reply = this.scripted.nextReply();
+    if (reply?.content) {
+      this.queue.put({ id: 'scripted', delta: { role: 'assistant', content: reply.content } });
+    }
+    if (reply?.toolCalls?.length) {
+      const toolCalls = reply.toolCalls.map((call, i) =>
+        llm.FunctionCall.create({
+          callId: `scripted_call_${i}`,
+          name: call.name,
+          args: JSON.stringify(call.args),
+        }),
+      );
+      this.queue.put({ id: 'scripted', delta: { role: 'assistant', toolCalls } });
+    }
+  }
+}
+
+// "/pattern/flags" or a plain pattern
+function parsePattern(pattern: string): RegExp {
+  const literal = /^\/(.*)\/([a-z]*)$/s.exec(pattern);
+  return literal ? new RegExp(literal[1] ?? '', literal[2]) : new RegExp(pattern);
+}
+
+function parseArgs(raw: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>) : {};
+  } catch {
+    return {};
+  }
+}
+
+/** The assistant's text and the tools it called, from the events of one turn. */
+export function summarizeTurn(events: voice.testing.RunEvent[]): {
+  reply: string;
+  toolCalls: ObservedToolCall[];
+} {
+  const reply = events
+    .filter(voice.testing.isChatMessageEvent)
+    .filter((ev) => ev.item.role === 'assistant')
+    .map((ev) => ev.item.textContent ?? '')
+    .filter(Boolean)
+    .join('\n');
+  const toolCalls = events
+    .filter(voice.testing.isFunctionCallEvent)
+    .map((ev) => ({ name: ev.item.name, args: parseArgs(ev.item.args) }));
+  return { reply, toolCalls };
+}
+
+/** Failed expectations for a reply, as readable messages. */
+export function checkReply(
+  expect: ReplyExpectation,
+  reply: string,
+  toolCalls: ObservedToolCall[],
+): string[] {
+  const failures: string[] = [];
+  const text = reply.toLowerCase();
+
+  for (const needle of expect.contains ?? []) {
+    if (!text.includes(needle.toLowerCase())) failures.push(`expected reply to contain "${needle}"`);
+  }
+  for (const needle of expect.notContains ?? []) {
+    if (text.includes(needle.toLowerCase())) failures.push(`expected reply not to contain "${needle}"`);
+  }
+  for (const pattern of expect.matches ?? []) {
+    if (!parsePattern(pattern).test(reply)) failures.push(`expected reply to match ${pattern}`);
+  }
+  for (const expected of expect.toolCalled ?? []) {
+    const calls = toolCalls.filter((call) => call.name === expected.name);
+    const matched = calls.some((call) =>
+      Object.entries(expected.args).every(([key, value]) => isDeepStrictEqual(call.args[key], value)),
+    );
+    if (matched) continue;
+    failures.push(
+      calls.length === 0
+        ? `expected a call to ${expected.name}`
+        : `expected ${expected.name} with ${JSON.stringify(expected.args)}, ` +
+            `got ${calls.map((call) => JSON.stringify(call.args)).join(', ')}`,
+    );
+  }
+  return failures;
+}
+
+/**
+ * Play the script's turns against the agent as a text chat. `model` replaces the agent's own
+ * model; a `ScriptedLLM` is also fed each turn's `mock` replies.
+ */
+export async function runAgentScript(
+  agentType: string,
+  config: AgentConfig,
+  script: AgentScript,
+  model?: llm.LLM,
+): Promise<TurnResult[]> {
+  const assistant = await createAssistant(agentType, config, {
+    textOnly: true,
+    ...(model ? { llm: model } : {}),
+    ...(script.language ? { language: script.language } : {}),
+    variables: {
+      caller: script.variables?.caller ?? {},
+      metadata: script.variables?.metadata ?? {},
+    },
+  });
+  const session = new voice.AgentSession({});
+  await session.start({ agent: assistant });
+
+  const results: TurnResult[] = [];
+  try {
+    for (const turn of script.turns) {
+      if (model instanceof ScriptedLLM) {
+        model.queue(turn.mock === undefined ? [] : Array.isArray(turn.mock) ? turn.mock : [turn.mock]);
+      }
+      const run = await session.run({ userInput: turn.user }).wait();
+      const { reply, toolCalls } = summarizeTurn(run.events);
+      results.push({
+        user: turn.user,
+        reply,
+        toolCalls,
+        failures: turn.expect ? checkReply(turn.expect, reply, toolCalls) : [],
+      });
+    }
+  } finally {
+    await session.close();
+  }
+  return results;
+}
@@ -7,16 +7,32 @@ import {
   metrics,
   voice,
 } from '@livekit/agents';
-import * as livekit from '@livekit/agents-plugin-livekit';
 import * as silero from '@livekit/agents-plugin-silero';
-import * as openai from '@livekit/agents-plugin-openai';
-
-import { InworldTTS } from './inworld-tts.js';
 
 import dotenv from 'dotenv';
+import { randomUUID } from 'node:crypto';
 import { fileURLToPath } from 'node:url';
 import { dirname, resolve } from 'node:path';
-import { buildInstructionsWithKnowledge, getAgentConfig } from './config/index.js';
+import { ConfiguredAssistant, createAssistant } from './assistant.js';
+import { CallSessionRecorder } from './db/call-sessions.js';
+import { getSharedPool } from './db/mysql.js';
+import { type ExtractionResult, extractCallData, formatTranscript } from './extraction.js';
+import { InactivityMonitor } from './inactivity.js';
+import { CallDurationLimit } from './max-duration.js';
+import { CallRecorder, pruneRecordings, removeStaleRecordingDirs } from './recording.js';
+import { routeRoom, sayUnavailable, sendDiagnostic, waitForCaller } from './room-metadata.js';
+import { applyRoomOverrides } from './room-overrides.js';
+import { speakLine } from './speech.js';
+import { callerVariables } from './template.js';
+import {
+  TEXT_INPUT_OPTIONS,
+  TEXT_OUTPUT_OPTIONS,
+  chatInputHandler,
+  conversationMode,
+} from './text-chat.js';
+import { matchLanguage, supportedLanguages } from './language.js';
+import { greetingInterruptible, voiceSessionOptions } from './turn-taking.js';
+import { CallWebhooks } from './webhooks.js';
 
 // Use absolute path for .env.local so child processes can find it
 const __filename = fileURLToPath(import.meta.url);
@@ -32,70 +48,89 @@ console.log(`[Agent] Will load config dynamically from room metadata (agentType)
 export default defineAgent({
   prewarm: async (proc: JobProcess) => {
     proc.userData.vad = await silero.VAD.load();
+    // Temp files of calls whose worker died mid-call
+    await removeStaleRecordingDirs();
   },
   entry: async (ctx: JobContext) => {
-    // Join the room first to access metadata
+    // Route by the room metadata set by the frontend in the token, which the job carries, so a
+    // call can be refused before joining. Invalid metadata or an unknown agentType is handled by
+    // UNKNOWN_AGENT_POLICY and reported to the room
+    const route = await routeRoom(ctx.job.room?.metadata);
+    if (!route.config && route.diagnostic.action === 'reject') {
+      console.error(`[Agent] ${route.diagnostic.message}; not joining (${route.diagnostic.code})`);
+      ctx.shutdown(route.diagnostic.code);
+      return;
+    }
+
     await ctx.connect();
 
-    // Read agentType from room metadata (set by frontend in token)
-    let agentType = 'default';
-    try {
-      const roomMetadata = ctx.room.metadata;
-      if (roomMetadata) {
-        const parsed = JSON.parse(roomMetadata) as { agentType?: string };
-        if (parsed.agentType) {
-          agentType = parsed.agentType;
-        }
+    if (!route.config) {
+      // Leave without waiting forever when nobody joins to hear about it
+      if (!(await waitForCaller(ctx))) {
+        console.warn(`[Agent] Nobody joined; leaving (${route.diagnostic.code})`);
+        ctx.shutdown(route.diagnostic.code);
+        return;
       }
-    } catch (err) {
-      console.warn(`[Agent] Failed to parse room metadata, using default agentType:`, err);
+      await sendDiagnostic(ctx.room, route.diagnostic);
+      await sayUnavailable(ctx.room, route.metadata);
+      ctx.shutdown(route.diagnostic.code);
+      return;
     }
-
-    console.log(`[Agent] Loading config for agentType: ${agentType}`);
-
-    // Load config dynamically from MySQL based on agentType
-    const agentConfig = await getAgentConfig(agentType);
-    const instructionsWithKnowledge = await buildInstructionsWithKnowledge(agentConfig);
-
+    const { agentType, metadata } = route;
+    // Voice, greeting and other `overrides` the agent's `roomOverrides` allow (see room-overrides.ts)
+    const overridden = applyRoomOverrides(route.config, metadata.overrides);
+    const agentConfig = overridden.config;
+    if (overridden.applied.length) {
+      console.log(`[Agent] Room overrides: ${overridden.applied.join(', ')}`);
+    }
+    const languageHint = metadata.language ?? metadata.locale;
+    console.log(`[Agent] Loaded config for agentType: ${agentType}`);
     console.log(`[Agent] Agent name: ${agentConfig.agentName}`);
-    console.log(`[Agent] Voice: ${agentConfig.voice}, Model: ${agentConfig.model}`);
+    console.log(
+      agentConfig.pipeline === 'realtime'
+        ? `[Agent] Pipeline: realtime (${agentConfig.realtime?.model ?? 'gpt-realtime'}, voice ${agentConfig.realtime?.voice ?? 'default'})`
+        : `[Agent] Voice: ${agentConfig.voice}, Model: ${agentConfig.model}`,
+    );
+    console.log(`[Agent] STT: ${agentConfig.stt?.provider ?? 'openai'}/${agentConfig.stt?.model ?? 'default'} (${agentConfig.stt?.language ?? 'en'})`);
+    console.log(`[Agent] Tools: ${(agentConfig.tools ?? []).map((t) => t.name).join(', ') || 'none'}`);
+    console.log(`[Agent] Handoff targets: ${(agentConfig.handoffs ?? []).join(', ') || 'none'}`);
+    console.log(`[Agent] Languages: ${supportedLanguages(agentConfig).join(', ')}`);
 
-    // Create the Assistant class with config-based instructions
-    class ConfiguredAssistant extends voice.Agent {
-      constructor() {
-        super({ instructions: instructionsWithKnowledge });
-      }
-    }
+    // `mode: "text"` in room metadata runs a text chat without STT or TTS (see text-chat.ts)
+    const mode = conversationMode(metadata);
+    console.log(`[Agent] Mode: ${mode}`);
 
-    // Set up a voice AI pipeline using config values
-    const session = new voice.AgentSession({
-      // Speech-to-text (STT) - force English language
-      stt: new openai.STT({
-        model: "gpt-4o-transcribe",
-        language: "en",
-      }),
-
-      // Large Language Model (LLM)
-      llm: new openai.LLM({
-        model: agentConfig.model,
-      }),
-
-      // Text-to-speech (TTS)
-      tts: new InworldTTS({
-        voice: agentConfig.voice,
-        model: agentConfig.ttsModel,
-        temperature: agentConfig.temperature,
-        speakingRate: agentConfig.speakingRate,
-      }),
-
-      // VAD and turn detection
-      turnDetection: new livekit.turnDetector.MultilingualModel(),
-      vad: ctx.proc.userData.vad! as silero.VAD,
-      voiceOptions: {
-        preemptiveGeneration: true,
-      },
+    // Config-based instructions, knowledge, tools, LLM and voice (see assistant.ts).
+    // A supported `language` (or `locale`) in room metadata skips auto-detection.
+    // {{caller.*}}, {{metadata.*}}, {{now.*}} and {{agent.*}} placeholders are filled from the
+    // participant, room metadata and server time (see template.ts).
+    const language = matchLanguage(agentConfig, languageHint);
+    const participant = await ctx.waitForParticipant();
+    if (route.diagnostic) await sendDiagnostic(ctx.room, route.diagnostic);
+    if (overridden.rejected.length) {
+      await sendDiagnostic(ctx.room, {
+        level: 'warning',
+        code: 'rejected_override',
+        message: `Ignored room overrides (${overridden.rejected.join('; ')})`,
+        action: 'ignore',
+        agentType,
+      });
+    }
+    const caller = callerVariables(participant);
+    const assistant = await createAssistant(agentType, agentConfig, {
+      variables: { caller, metadata },
+      ...(language ? { language } : {}),
+      vad: ctx.proc.userData.vad as silero.VAD,
+      ...(mode === 'text' ? { textOnly: true } : {}),
     });
 
+    // Set up a voice AI pipeline; STT, LLM and TTS come from the active agent so handoffs can switch them.
+    // VAD, turn detection and interruptions follow the agent's `turnTaking` (see turn-taking.ts).
+    // Text chats take whole messages, so they need neither VAD nor turn detection
+    const session = new voice.AgentSession(
+      mode === 'text' ? {} : voiceSessionOptions(agentConfig, ctx.proc.userData.vad! as silero.VAD),
+    );
+
     // Metrics collection
     const usageCollector = new metrics.UsageCollector();
     session.on(voice.AgentSessionEventTypes.MetricsCollected, (ev) => {
@@ -103,21 +138,199 @@ export default defineAgent({
       usageCollector.collect(ev.metrics);
     });
 
+    // Persist the session and its transcript (no-op unless SESSION_STORE=mysql)
+    const roomName = ctx.room.name ?? ctx.job.room?.name ?? 'unknown';
+    const recorder = await CallSessionRecorder.start({ roomName, agentType });
+
+    // Signed callbacks to the agent's `webhooks`; the agent that took the call keeps them
+    // across handoffs (see webhooks.ts)
+    const callStartedAt = new Date();
+    const webhooks = await CallWebhooks.start({
+      webhooks: agentConfig.webhooks,
+      sessionId: recorder?.id ?? randomUUID(),
+      agentType,
+      roomName,
+    });
+    webhooks?.emit('session.started', {
+      agentName: agentConfig.agentName,
+      mode,
+      startedAt: callStartedAt.toISOString(),
+      caller,
+      metadata,
+    });
+    const transcript: { role: string; text: string; interrupted: boolean; createdAt: string }[] = [];
+
+    session.on(voice.AgentSessionEventTypes.ConversationItemAdded, (ev) => {
+      const item = ev.item;
+      if (item.role !== 'user' && item.role !== 'assistant') return;
+      const turn = {
+        role: item.role,
+        text: item.textContent ?? '',
+        interrupted: item.interrupted,
+        createdAt: new Date(item.createdAt),
+      };
+      recorder?.recordTurn(turn);
+      if (webhooks) {
+        const completed = { ...turn, createdAt: turn.createdAt.toISOString() };
+        transcript.push(completed);
+        webhooks.emit('turn.completed', completed);
+      }
+      // Which of the agent's providers (and fallbacks) produced this turn
+      const agent = session.currentAgent;
+      if (item.role === 'assistant' && agent instanceof ConfiguredAssistant && agent.servedBy) {
+        console.log(`[Fallback] Turn served by ${agent.servedBy}`);
+      }
+    });
+
+    session.on(voice.AgentSessionEventTypes.FunctionToolsExecuted, (ev) => {
+      if (!webhooks) return;
+      for (const [call, output] of voice.zipFunctionCallsAndOutputs(ev)) {
+        let args: unknown = call.args;
+        try {
+          args = JSON.parse(call.args) as unknown;
+        } catch {
+          // Keep the raw string
+        }
+        webhooks.emit('tool.invoked', {
+          name: call.name,
+          arguments: args,
+          output: output.output,
+          isError: output.isError,
+        });
+      }
+    });
+
+    // Why and when the call ended; hang-ups set their own reason before the session closes
+    let endReason: string | undefined;
+    let callEndedAt: Date | undefined;
+    session.on(voice.AgentSessionEventTypes.Close, (ev) => {
+      endReason ??= ev.reason;
+      callEndedAt ??= new Date();
+    });
+
+    // Caller and agent audio, for voice calls to agents with `recording.enabled` (see recording.ts).
+    // Nothing is captured until the consent disclosure has played
+    const recording =
+      agentConfig.recording?.enabled && mode === 'voice' ? agentConfig.recording : undefined;
+    let callRecording: CallRecorder | undefined;
+    let sessionClosed = false;
+    session.on(voice.AgentSessionEventTypes.Close, () => {
+      sessionClosed = true;
+      callRecording?.stop().catch((err) => console.warn('[Recording] Failed to stop:', err));
+    });
+
+    const storeRecording = async (): Promise<string | null> => {
+      if (!callRecording) return null;
+      try {
+        const file = await callRecording.save(
+          recorder?.id ?? `${Date.now()}-${roomName.replace(/[^\w-]/g, '_')}`,
+        );
+        console.log(`[Recording] Saved ${file}`);
+        await pruneRecordings(recorder ? getSharedPool() : null);
+        return file;
+      } catch (err) {
+        console.warn('[Recording] Failed to store the call recording:', err);
+        return null;
+      }
+    };
+
     const logUsage = async () => {
+      // Post-processing below takes a while; the call itself is over now at the latest
+      const endedAt = callEndedAt ?? new Date();
       const summary = usageCollector.getSummary();
       console.log(`Usage: ${JSON.stringify(summary)}`);
+
+      const callTranscript = formatTranscript(session.history);
+
+      // Structured outcome of the call, if the agent declares an extraction schema
+      let extraction: ExtractionResult | null = null;
+      try {
+        extraction = await extractCallData(agentConfig, callTranscript);
+        if (extraction) console.log(`[Extraction] ${JSON.stringify(extraction)}`);
+      } catch (err) {
+        console.warn('[Extraction] Failed to extract call data:', err);
+      }
+
+      // Agents with `memory` fold the call into what they remember about the caller
+      const memories = new Map(
+        [assistant, session.currentAgent]
+          .flatMap((agent) => (agent instanceof ConfiguredAssistant && agent.memory ? [agent.memory] : []))
+          .map((memory) => [memory.agentType, memory]),
+      );
+      await Promise.all([...memories.values()].map((memory) => memory.rememberCall(callTranscript)));
+
+      const recordingFile = await storeRecording();
+      await recorder?.finish({ endedAt, usage: summary, extraction, reason: endReason, recordingFile });
+
+      webhooks?.emit('session.ended', {
+        endedAt: endedAt.toISOString(),
+        durationSeconds: Math.round((endedAt.getTime() - callStartedAt.getTime()) / 1000),
+        reason: endReason ?? null,
+        transcript,
+        usage: summary,
+        extraction,
+        recordingFile,
+      });
+      await webhooks?.flush();
     };
 
     ctx.addShutdownCallback(logUsage);
-    
+
+    // Settings of whichever agent is currently in the call (handoffs replace it)
+    const activeConfig = () =>
+      session.currentAgent instanceof ConfiguredAssistant ? session.currentAgent.config : agentConfig;
+
+    // Close the session and leave the room; shutdown callbacks still store the session
+    const hangUp = async (reason: string) => {
+      console.log(`[Agent] Ending call: ${reason}`);
+      endReason ??= reason;
+      await session.close();
+      ctx.shutdown(reason);
+    };
+
+    // Reprompt silent callers and hang up on unresponsive ones (per-agent `inactivity`); chat
+    // users take their time typing, so text chats go without
+    const inactivity =
+      mode === 'voice'
+        ? new InactivityMonitor(session, () => activeConfig().inactivity, hangUp)
+        : undefined;
+
+    // Cap the call length; the limit of the agent that took the call applies across handoffs
+    const durationLimit = agentConfig.maxDuration
+      ? new CallDurationLimit(session, agentConfig.maxDuration, hangUp)
+      : undefined;
+
     // Start the session
     await session.start({
-      agent: new ConfiguredAssistant(),
+      agent: assistant,
       room: ctx.room,
+      // Chat messages are answered in text; in a voice call the first one switches to text
+      inputOptions: {
+        textInputCallback: chatInputHandler(ctx.room, () => inactivity?.stop()),
+        ...(mode === 'text' ? TEXT_INPUT_OPTIONS : {}),
+      },
+      ...(mode === 'text' ? { outputOptions: TEXT_OUTPUT_OPTIONS } : {}),
+      // The SDK recorder would upload the whole call to LiveKit Cloud; CallRecorder keeps it local
+      ...(recording ? { record: false } : {}),
     });
+    durationLimit?.start();
+
+    // Tell the caller about the recording first; recording starts after the disclosure, and
+    // nothing is kept if the caller hangs up during it
+    if (recording?.consentDisclosure) {
+      await speakLine(session, recording.consentDisclosure, { allowInterruptions: false }).waitForPlayout();
+    }
+    if (recording && !sessionClosed) {
+      try {
+        callRecording = await CallRecorder.start(ctx.room, participant);
+        if (sessionClosed) await callRecording.stop();
+      } catch (err) {
+        console.warn('[Recording] Failed to start recording:', err);
+      }
+    }
 
-    // Agent speaks first with the configured greeting
-    await session.say(agentConfig.greeting, { allowInterruptions: true });
+    // Agent speaks first with the configured (localized) greeting
+    await speakLine(session, assistant.greeting, { allowInterruptions: greetingInterruptible(agentConfig) });
   },
 });
 
@@ -0,0 +1,284 @@
+/**
+ * Config-driven voice agent
+ *
+ * One `ConfiguredAssistant` per agent type: instructions + knowledge (inline or through the
+ * search_knowledge tool), STT, LLM and voice from its `AgentConfig` (or one OpenAI realtime
+ * model when `pipeline` is 'realtime'), HTTP tools, and a transfer tool for the agent types
+ * it may hand off to. Cascade agents may list backup providers in `fallbacks` (see fallback.ts).
+ * Agents with `locales` detect the caller's language and switch voice, STT and prompt to match.
+ * Text chats (see text-chat.ts) get the agent's `model` only, without STT or a voice. Agents
+ * with `memory` also know what they remember about the caller (see caller-memory.ts).
+ */
+import { type VAD, llm, type stt, type tts, voice } from '@livekit/agents';
+import * as openai from '@livekit/agents-plugin-openai';
+import { z } from 'zod';
+
+import { applyBusinessHours } from './business-hours.js';
+import { CallerMemory } from './caller-memory.js';
+import { type AgentKnowledge, buildAgentKnowledge, findAgentConfig } from './config/index.js';
+import type { AgentConfig } from './config/types.js';
+import { FallbackSTT, ProviderUsage, createLlmChain, createSttChain, createTtsChain } from './fallback.js';
+import {
+  detectLanguage,
+  languageInstructions,
+  localizedGreeting,
+  localizedVoice,
+  matchLanguage,
+  primaryLanguage,
+  supportedLanguages,
+} from './language.js';
+import { speakLine } from './speech.js';
+import { setSttLanguage } from './stt.js';
+import { type CallVariables, renderAgentConfig } from './template.js';
+import { isTextSession } from './text-chat.js';
+import { greetingInterruptible } from './turn-taking.js';
+import { buildHttpTools } from './tools/http.js';
+import { buildKnowledgeTools } from './tools/knowledge.js';
+
+export type AssistantOptions = {
+  // History carried over from the previous agent on a handoff
+  chatCtx?: llm.ChatContext;
+  // Conversation language; null detects it from the caller's first turns. Defaults to the
+  // primary language, or detection when the agent has more than one.
+  language?: string | null;
+  // Caller and room metadata for {{placeholders}}; kept so handoff targets can use them too
+  variables?: CallVariables;
+  // Segments speech for non-streaming backup STT providers
+  vad?: VAD;
+  // Text chat: answer with the chat model only, without STT or TTS
+  textOnly?: boolean;
+  // Answers text chats instead of the agent's `model`, e.g. a scripted mock in agent tests
+  llm?: llm.LLM;
+  // What the agent remembers about the caller; createAssistant loads it for agents with `memory`
+  memory?: CallerMemory;
+};
+
+// Final transcripts to try before giving up on detection and staying in auto mode
+const MAX_DETECTION_ATTEMPTS = 3;
+
+export class ConfiguredAssistant extends voice.Agent {
+  readonly agentType: string;
+  readonly config: AgentConfig;
+  readonly variables: CallVariables;
+  private readonly isHandoff: boolean;
+  // Unset for realtime agents, which speak with the realtime model's voice
+  private readonly setVoice: ((voice: string) => void) | undefined;
+  private readonly usage: ProviderUsage | undefined;
+  // Kept for handoff targets, so a whole test conversation runs on the same model
+  readonly llmOverride: llm.LLM | undefined;
+  readonly memory: CallerMemory | undefined;
+  private currentLanguage: string | null;
+  private detectionAttempts = 0;
+
+  constructor(
+    agentType: string,
+    config: AgentConfig,
+    knowledge: AgentKnowledge,
+    opts: AssistantOptions = {},
+  ) {
+    const instructions = opts.memory
+      ? `${knowledge.instructions}\n\n${opts.memory.instructions()}`
+      : knowledge.instructions;
+    const multilingual = supportedLanguages(config).length > 1;
+    const language =
+      opts.language === undefined ? (multilingual ? null : primaryLanguage(config)) : opts.language;
+    const { setVoice, usage, ...models } = createModels(config, language, opts);
+
+    super({
+      instructions:
+        multilingual && language
+          ? `${instructions}\n\n${languageInstructions(config, language)}`
+          : multilingual
+            ? `${instructions}\n\nRespond in the language the caller speaks.`
+            : instructions,
+      ...(opts.chatCtx ? { chatCtx: opts.chatCtx } : {}),
+      tools: {
+        ...buildHttpTools(config.tools ?? []),
+        ...buildKnowledgeTools(knowledge.index, config.knowledgeSearch?.topK),
+        ...buildHandoffTools(config.handoffs ?? []),
+        ...opts.memory?.tools(),
+      },
+      // Per-agent STT, LLM and voice, so a handoff also switches them
+      ...models,
+    });
+    this.agentType = agentType;
+    this.config = config;
+    this.variables = opts.variables ?? {};
+    this.isHandoff = opts.chatCtx !== undefined;
+    this.setVoice = setVoice;
+    this.usage = usage;
+    this.llmOverride = opts.textOnly ? opts.llm : undefined;
+    this.memory = opts.memory;
+    this.currentLanguage = language;
+  }
+
+  /** The conversation language, or null while it is still being detected. */
+  get language(): string | null {
+    return this.currentLanguage;
+  }
+
+  /** Providers behind the latest LLM, STT and TTS output, or undefined for realtime agents. */
+  get servedBy(): string | undefined {
+    return this.usage?.describe();
+  }
+
+  get greeting(): string {
+    return localizedGreeting(this.config, this.currentLanguage ?? primaryLanguage(this.config));
+  }
+
+  override async onEnter(): Promise<void> {
+    if (this.currentLanguage === null) {
+      this.session.on(voice.AgentSessionEventTypes.UserInputTranscribed, this.onTranscribed);
+    }
+    // The first agent's greeting is spoken by `entry`; a transferred caller hears the new one
+    if (this.isHandoff) {
+      speakLine(this.session, this.greeting, { allowInterruptions: greetingInterruptible(this.config) });
+    }
+  }
+
+  override async onExit(): Promise<void> {
+    this.session.off(voice.AgentSessionEventTypes.UserInputTranscribed, this.onTranscribed);
+  }
+
+  /** Switch voice, STT and prompt to `language` mid-call. */
+  async switchLanguage(language: string): Promise<void> {
+    if (language === this.currentLanguage) return;
+    this.currentLanguage = language;
+    console.log(`[Agent] Switching ${this.agentType} to language: ${language}`);
+
+    // A realtime voice cannot change mid-session; the language instruction below still applies
+    this.setVoice?.(localizedVoice(this.config, language));
+    if (this.stt instanceof FallbackSTT) this.stt.setLanguage(language);
+    else if (this.stt) setSttLanguage(this.stt, language);
+
+    const chatCtx = this.chatCtx.copy();
+    chatCtx.addMessage({ role: 'system', content: languageInstructions(this.config, language) });
+    await this.updateChatCtx(chatCtx);
+  }
+
+  // Prefer the language reported by STT; fall back to guessing from the transcript text
+  private onTranscribed = (ev: voice.UserInputTranscribedEvent): void => {
+    if (!ev.isFinal || this.currentLanguage !== null) return;
+
+    const detected =
+      matchLanguage(this.config, ev.language) ??
+      detectLanguage(ev.transcript, supportedLanguages(this.config));
+
+    if (detected) {
+      this.session.off(voice.AgentSessionEventTypes.UserInputTranscribed, this.onTranscribed);
+      this.switchLanguage(detected).catch((err) =>
+        console.warn(`[Agent] Failed to switch language to ${detected}:`, err),
+      );
+    } else if (++this.detectionAttempts >= MAX_DETECTION_ATTEMPTS) {
+      this.session.off(voice.AgentSessionEventTypes.UserInputTranscribed, this.onTranscribed);
+    }
+  };
+}
+
+function createModels(
+  config: AgentConfig,
+  language: string | null,
+  { vad, textOnly = false, llm: llmOverride }: AssistantOptions,
+): {
+  stt?: stt.STT;
+  llm: llm.LLM | llm.RealtimeModel;
+  tts?: tts.TTS;
+  setVoice?: (voice: string) => void;
+  usage?: ProviderUsage;
+} {
+  if (textOnly) {
+    if (llmOverride) return { llm: llmOverride };
+    const usage = new ProviderUsage();
+    return { llm: createLlmChain(config, usage), usage };
+  }
+
+  if (config.pipeline === 'realtime') {
+    return {
+      llm: new openai.realtime.RealtimeModel({
+        ...(config.realtime?.model ? { model: config.realtime.model } : {}),
+        ...(config.realtime?.voice ? { voice: config.realtime.voice } : {}),
+        ...(config.realtime?.speed ? { speed: config.realtime.speed } : {}),
+        // Caller transcripts for the session log, extraction and language detection
+        inputAudioTranscription: {
+          model: 'gpt-4o-mini-transcribe',
+          ...(language ? { language } : {}),
+        },
+      }),
+    };
+  }
+
+  // Each chain is a single provider unless the agent lists `fallbacks`
+  const usage = new ProviderUsage();
+  const voiceChain = createTtsChain(
+    config,
+    language ? localizedVoice(config, language) : config.voice,
+    usage,
+  );
+  return {
+    stt: createSttChain(config, language, vad, usage),
+    llm: createLlmChain(config, usage),
+    tts: voiceChain.tts,
+    setVoice: voiceChain.setVoice,
+    usage,
+  };
+}
+
+export async function createAssistant(
+  agentType: string,
+  config: AgentConfig,
+  opts: AssistantOptions = {},
+): Promise<ConfiguredAssistant> {
+  // Outside business hours the after-hours greeting and instructions apply. Placeholders are
+  // filled before knowledge is appended, so documents are left untouched
+  const rendered = renderAgentConfig(agentType, applyBusinessHours(config), opts.variables ?? {});
+  const [knowledge, memory] = await Promise.all([
+    buildAgentKnowledge(rendered),
+    CallerMemory.load(agentType, rendered, opts.variables?.caller),
+  ]);
+  return new ConfiguredAssistant(agentType, rendered, knowledge, {
+    ...opts,
+    ...(memory ? { memory } : {}),
+  });
+}
+
+function buildHandoffTools(targets: string[]): llm.ToolContext {
+  const [first, ...rest] = targets;
+  if (first === undefined) return {};
+
+  return {
+    transfer_to_agent: llm.tool({
+      description:
+        `Transfer the caller to another specialist agent when their request is better handled there. ` +
+        `Available agents: ${targets.join(', ')}.`,
+      parameters: z.object({
+        agentType: z.enum([first, ...rest]).describe('The agent to transfer the caller to'),
+      }),
+      execute: async ({ agentType }, { ctx }) => {
+        const targetConfig = await findAgentConfig(agentType);
+        if (!targetConfig) {
+          throw new llm.ToolError(`Agent '${agentType}' is not available right now`);
+        }
+
+        // Keep speaking the caller's language if the target agent supports it
+        const current = ctx.session.currentAgent;
+        const language =
+          current instanceof ConfiguredAssistant
+            ? matchLanguage(targetConfig, current.language)
+            : undefined;
+
+        console.log(`[Agent] Handing off to agentType: ${agentType}`);
+        const next = await createAssistant(agentType, targetConfig, {
+          chatCtx: ctx.session.chatCtx.copy({ excludeInstructions: true, excludeFunctionCall: true }),
+          ...(language ? { language } : {}),
+          ...(current instanceof ConfiguredAssistant ? { variables: current.variables } : {}),
+          ...(ctx.session.vad ? { vad: ctx.session.vad } : {}),
+          ...(isTextSession(ctx.session) ? { textOnly: true } : {}),
+          ...(current instanceof ConfiguredAssistant && current.llmOverride
+            ? { llm: current.llmOverride }
+            : {}),
+        });
+        return llm.handoff({ agent: next, returns: `Transferred to ${targetConfig.agentName}` });
+      },
+    }),
+  };
+}
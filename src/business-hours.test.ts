@@ -0,0 +1,70 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+
+import { applyBusinessHours, businessHoursStatus, describeBusinessHours } from './business-hours.js';
+import type { AgentConfig, BusinessHoursConfig } from './config/types.js';
+
+const weekday = [{ open: '11:00', close: '22:00' }];
+const hours: BusinessHoursConfig = {
+  timezone: 'America/New_York',
+  weekly: {
+    mon: weekday,
+    tue: weekday,
+    wed: weekday,
+    thu: weekday,
+    fri: weekday,
+    sat: [{ open: '17:00', close: '01:30' }],
+  },
+  holidays: ['2025-07-04'],
+};
+
+const config: AgentConfig = {
+  agentName: 'Sofia',
+  instructions: 'Book tables for callers.',
+  greeting: 'Hi, how many people should I seat?',
+  voice: 'Olivia',
+  model: 'gpt-4o-mini',
+  ttsModel: 'inworld-tts-1',
+  temperature: 1,
+  speakingRate: 1,
+  locales: { es: { greeting: 'Hola', voice: 'Diego' } },
+  businessHours: { ...hours, closedGreeting: 'We are closed. Our hours are {{agent.openingHours}}.' },
+};
+
+describe('Business hours', () => {
+  it('should follow the weekly hours in the agent time zone', () => {
+    // Monday 2 June 2025; New York is UTC-4
+    assert.strictEqual(businessHoursStatus(hours, new Date('2025-06-02T16:00:00Z')).open, true);
+    assert.strictEqual(businessHoursStatus(hours, new Date('2025-06-02T07:00:00Z')).open, false);
+    assert.strictEqual(businessHoursStatus(hours, new Date('2025-06-03T02:00:00Z')).open, false);
+    assert.strictEqual(businessHoursStatus(hours, new Date('2025-06-02T07:00:00Z')).localTime, '03:00');
+  });
+
+  it('should keep late openings open past midnight', () => {
+    // Saturday 7 June 23:00 and Sunday 8 June 01:00 local, then 02:00 after closing
+    assert.strictEqual(businessHoursStatus(hours, new Date('2025-06-08T03:00:00Z')).open, true);
+    assert.strictEqual(businessHoursStatus(hours, new Date('2025-06-08T05:00:00Z')).open, true);
+    assert.strictEqual(businessHoursStatus(hours, new Date('2025-06-08T06:00:00Z')).open, false);
+  });
+
+  it('should close on holidays', () => {
+    const status = businessHoursStatus(hours, new Date('2025-07-04T16:00:00Z'));
+    assert.deepStrictEqual([status.open, status.holiday], [false, true]);
+  });
+
+  it('should describe the hours with matching days grouped', () => {
+    assert.strictEqual(
+      describeBusinessHours(hours),
+      'Monday to Friday 11 AM to 10 PM; Saturday 5 PM to 1:30 AM; closed Sunday',
+    );
+  });
+
+  it('should switch to the after-hours greeting and instructions while closed', () => {
+    const closed = applyBusinessHours(config, new Date('2025-06-02T07:00:00Z'));
+    assert.strictEqual(closed.greeting, config.businessHours?.closedGreeting);
+    assert.match(closed.instructions, /^Book tables for callers\.\n\nThe business is closed right now\./);
+    assert.deepStrictEqual(closed.locales, { es: { voice: 'Diego' } });
+
+    assert.strictEqual(applyBusinessHours(config, new Date('2025-06-02T16:00:00Z')), config);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Business hours and holidays
+ *
+ * An agent with `businessHours` is open during its weekly periods, in its own time zone, and
+ * closed on listed holidays. Calls outside those hours get the `closedGreeting` and
+ * `closedInstructions` (or a closed note with the opening hours), so the agent takes a
+ * message or gives opening times instead of promising service nobody can deliver.
+ */
+import {
+  type AgentConfig,
+  type BusinessHoursConfig,
+  type OpeningPeriod,
+  WEEKDAYS,
+} from './config/types.js';
+
+type Weekday = (typeof WEEKDAYS)[number];
+
+const DAY_NAMES: Record<Weekday, string> = {
+  mon: 'Monday',
+  tue: 'Tuesday',
+  wed: 'Wednesday',
+  thu: 'Thursday',
+  fri: 'Friday',
+  sat: 'Saturday',
+  sun: 'Sunday',
+};
+
+export type BusinessHoursStatus = {
+  open: boolean;
+  // Closed because today is one of the `holidays`
+  holiday: boolean;
+  // Local date and time in the agent's time zone
+  localDate: string;
+  localTime: string;
+};
+
+function minutes(time: string): number {
+  const [hours = 0, mins = 0] = time.split(':').map(Number);
+  return hours * 60 + mins;
+}
+
+function localClock(timeZone: string, date: Date): { date: string; time: string; weekday: Weekday } {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    })
+      .formatToParts(date)
+      .map((p) => [p.type, p.value]),
+  );
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    time: `${parts.hour}:${parts.minute}`,
+    weekday: (parts.weekday ?? 'Mon').toLowerCase().slice(0, 3) as Weekday,
+  };
+}
+
+// Periods whose close is not after the open run into the next day
+function spansMidnight(period: OpeningPeriod): boolean {
+  return minutes(period.close) <= minutes(period.open);
+}
+
+export function businessHoursStatus(hours: BusinessHoursConfig, now = new Date()): BusinessHoursStatus {
+  const local = localClock(hours.timezone, now);
+  const status = { localDate: local.date, localTime: local.time };
+  if (hours.holidays?.includes(local.date)) return { open: false, holiday: true, ...status };
+
+  const t = minutes(local.time);
+  const day = WEEKDAYS.indexOf(local.weekday);
+  const yesterday = WEEKDAYS[(day + 6) % 7]!;
+  const open =
+    (hours.weekly[local.weekday] ?? []).some((p) =>
+      spansMidnight(p) ? t >= minutes(p.open) : t >= minutes(p.open) && t < minutes(p.close),
+    ) ||
+    // The tail of last night's late opening
+    (hours.weekly[yesterday] ?? []).some((p) => spansMidnight(p) && t < minutes(p.close));
+  return { open, holiday: false, ...status };
+}
+
+// "09:00" -> "9 AM", "17:30" -> "5:30 PM"
+function spokenTime(time: string): string {
+  const total = minutes(time);
+  if (total === 0 || total === 24 * 60) return 'midnight';
+  if (total === 12 * 60) return 'noon';
+  const hours = Math.floor(total / 60);
+  const mins = total % 60;
+  const hour12 = hours % 12 || 12;
+  return `${hour12}${mins ? `:${String(mins).padStart(2, '0')}` : ''} ${hours < 12 ? 'AM' : 'PM'}`;
+}
+
+/**
+ * Opening hours in words, with days that share hours grouped, e.g. "Monday to Friday 9 AM to
+ * 5 PM; Saturday 10 AM to 2 PM; closed Sunday". Used for {{agent.openingHours}}.
+ */
+export function describeBusinessHours(hours: BusinessHoursConfig): string {
+  const describeDay = (day: Weekday) =>
+    (hours.weekly[day] ?? []).map((p) => `${spokenTime(p.open)} to ${spokenTime(p.close)}`).join(' and ');
+
+  const groups: { from: Weekday; to: Weekday; text: string }[] = [];
+  for (const day of WEEKDAYS) {
+    const text = describeDay(day);
+    const last = groups.at(-1);
+    if (last && last.text === text) last.to = day;
+    else groups.push({ from: day, to: day, text });
+  }
+
+  const range = (g: { from: Weekday; to: Weekday }) =>
+    g.from === g.to ? DAY_NAMES[g.from] : `${DAY_NAMES[g.from]} to ${DAY_NAMES[g.to]}`;
+  const open = groups.filter((g) => g.text).map((g) => `${range(g)} ${g.text}`);
+  const closed = groups.filter((g) => !g.text).map(range);
+  return [...open, ...(closed.length ? [`closed ${closed.join(' and ')}`] : [])].join('; ') || 'closed';
+}
+
+/**
+ * The config a call should use right now: unchanged while open, otherwise with the after-hours
+ * greeting and instructions. Locale greetings are dropped while closed so callers hear the
+ * closed greeting.
+ */
+export function applyBusinessHours(config: AgentConfig, now = new Date()): AgentConfig {
+  const hours = config.businessHours;
+  if (!hours) return config;
+  const status = businessHoursStatus(hours, now);
+  if (status.open) return config;
+
+  console.log(
+    `[Agent] ${config.agentName} is closed (${status.holiday ? 'holiday' : 'outside business hours'}, ` +
+      `${status.localDate} ${status.localTime} ${hours.timezone})`,
+  );
+  const instructions =
+    hours.closedInstructions ??
+    `${config.instructions}\n\n` +
+      `The business is closed right now${status.holiday ? ' for a holiday' : ''}. ` +
+      `Opening hours: ${describeBusinessHours(hours)} (${hours.timezone}). ` +
+      `Do not offer anything that needs staff right away, such as seating, pickups or transfers; ` +
+      `tell the caller when you are open and offer to take a message.`;
+  if (!hours.closedGreeting) return { ...config, instructions };
+
+  const locales = config.locales
+    ? Object.fromEntries(
+        Object.entries(config.locales).map(([code, locale]) => {
+          const withoutGreeting = { ...locale };
+          delete withoutGreeting.greeting;
+          return [code, withoutGreeting];
+        }),
+      )
+    : undefined;
+  return { ...config, instructions, greeting: hours.closedGreeting, ...(locales ? { locales } : {}) };
+}
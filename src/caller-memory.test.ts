@@ -0,0 +1,52 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+
+import { callerMemoryKey, memoryInstructions, mergeFacts } from './caller-memory.js';
+
+describe('Caller memory', () => {
+  it('should key callers by phone number, then identity', () => {
+    assert.strictEqual(callerMemoryKey({ identity: 'sip_+15551234567', phone: '+15551234567' }), 'phone:+15551234567');
+    assert.strictEqual(callerMemoryKey({ identity: 'user-42', name: 'Maria' }), 'identity:user-42');
+    assert.strictEqual(callerMemoryKey(undefined), null);
+  });
+
+  it('should not mistake a web identity shaped like a phone number for that phone', () => {
+    assert.notStrictEqual(
+      callerMemoryKey({ identity: '+15551234567' }),
+      callerMemoryKey({ identity: 'sip_+15551234567', phone: '+15551234567' }),
+    );
+  });
+
+  it('should add, correct and forget facts', () => {
+    const facts = ['Shipment 4471 is held at customs', 'Prefers morning deliveries'];
+    assert.deepStrictEqual(
+      mergeFacts(
+        facts,
+        {
+          remember: ['Shipment 4471 was released', 'prefers morning deliveries'],
+          forget: ['shipment 4471 is held at customs'],
+        },
+        20,
+      ),
+      ['Shipment 4471 was released', 'prefers morning deliveries'],
+    );
+    assert.deepStrictEqual(mergeFacts(['a', 'b', 'c'], { remember: ['d'] }, 3), ['b', 'c', 'd']);
+  });
+
+  it('should describe what the agent remembers', () => {
+    assert.match(memoryInstructions(null), /^You have no memory of this caller/);
+    const text = memoryInstructions({
+      summary: 'Asked about a delayed shipment.',
+      facts: ['Shipment 4471 is held at customs'],
+      calls: 2,
+      lastCallAt: new Date('2025-06-02T16:00:00Z'),
+    });
+    assert.match(text, /^You remember this caller from 2 earlier calls\. The last one was on 2025-06-02\./);
+    assert.match(text, /Summary of earlier calls: Asked about a delayed shipment\./);
+    assert.match(text, /\n- Shipment 4471 is held at customs$/);
+    assert.match(
+      memoryInstructions({ summary: null, facts: ['Prefers email'], calls: 0, lastCallAt: null }),
+      /^You remember this caller\. Use it/,
+    );
+  });
+});
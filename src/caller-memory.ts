@@ -0,0 +1,261 @@
+/**
+ * Caller memory
+ *
+ * Agents with `memory.enabled` remember each caller across calls, keyed by the SIP phone number
+ * or, for web callers, the participant identity. Keys carry their source (`phone:+1555…`,
+ * `identity:user-42`), so a web identity that looks like a phone number is a different caller. What the agent knows is added to its
+ * instructions when the call starts, the agent can save facts mid-call with the
+ * `update_caller_memory` tool, and after the call the agent's model folds the transcript into
+ * a short summary and a list of facts. Memory is stored per agent type in MySQL.
+ */
+import { llm } from '@livekit/agents';
+import * as openai from '@livekit/agents-plugin-openai';
+import { z } from 'zod';
+
+import type { AgentConfig, CallerMemoryConfig } from './config/types.js';
+import { type CallerMemoryRecord, getCallerMemory, saveCallerMemory } from './db/caller-memory.js';
+import { type MySqlPool, getSharedPool } from './db/mysql.js';
+import { ensureSchema } from './db/schema.js';
+
+const DEFAULT_MAX_FACTS = 20;
+// Longest fact the agent may store, so one tool call cannot flood the prompt
+const MAX_FACT_LENGTH = 300;
+
+let schemaReady: Promise<void> | undefined;
+
+export const CALLER_KEY_SOURCES = ['phone', 'identity'] as const;
+export type CallerKeySource = (typeof CALLER_KEY_SOURCES)[number];
+
+export function callerKey(source: CallerKeySource, id: string): string {
+  return `${source}:${id}`;
+}
+
+/** The key a caller is remembered by: their phone number, else their participant identity. */
+export function callerMemoryKey(caller: Record<string, string> | undefined): string | null {
+  if (caller?.phone) return callerKey('phone', caller.phone);
+  if (caller?.identity) return callerKey('identity', caller.identity);
+  return null;
+}
+
+/** `facts` with `forget` removed (ignoring case) and `remember` added, newest kept last. */
+export function mergeFacts(
+  facts: string[],
+  change: { remember?: string[]; forget?: string[] },
+  maxFacts: number,
+): string[] {
+  const key = (fact: string) => fact.trim().toLowerCase();
+  const forget = new Set((change.forget ?? []).map(key));
+  const added = (change.remember ?? []).map((f) => f.trim().slice(0, MAX_FACT_LENGTH)).filter(Boolean);
+  const addedKeys = new Set(added.map(key));
+  const kept = facts.filter((f) => !forget.has(key(f)) && !addedKeys.has(key(f)));
+  return [...kept, ...added].slice(-maxFacts);
+}
+
+/** Instructions telling the agent what it remembers; for a new caller, that there is nothing. */
+export function memoryInstructions(
+  record: Pick<CallerMemoryRecord, 'summary' | 'facts' | 'calls' | 'lastCallAt'> | null,
+): string {
+  const usage =
+    'Use it to pick up where the caller left off instead of asking again, but confirm anything ' +
+    'that may have changed. When the caller tells you something worth remembering for next ' +
+    'time, or corrects what you remember, save it with update_caller_memory.';
+  if (!record || (!record.summary && record.facts.length === 0)) {
+    return `You have no memory of this caller from earlier calls. ${usage}`;
+  }
+  // Facts saved mid-call come before the first finished call is counted
+  const calls =
+    record.calls === 0 ? '' : record.calls === 1 ? ' from one earlier call' : ` from ${record.calls} earlier calls`;
+  const lastCall = record.lastCallAt
+    ? ` The last one was on ${record.lastCallAt.toISOString().slice(0, 10)}.`
+    : '';
+  return [
+    `You remember this caller${calls}.${lastCall} ${usage}`,
+    ...(record.summary ? [`Summary of earlier calls: ${record.summary}`] : []),
+    ...(record.facts.length ? ['What you know about the caller:', ...record.facts.map((f) => `- ${f}`)] : []),
+  ].join('\n');
+}
+
+const SummarySchema = z.object({
+  summary: z.string(),
+  facts: z.array(z.string()),
+});
+
+/** One caller's memory for one agent during a call. */
+export class CallerMemory {
+  private summary: string | null;
+  private facts: string[];
+  // Mid-call saves are chained so they land in order and the post-call update comes last
+  private pending: Promise<void> = Promise.resolve();
+
+  private constructor(
+    private readonly pool: MySqlPool,
+    readonly agentType: string,
+    readonly callerKey: string,
+    private readonly config: AgentConfig,
+    private readonly record: CallerMemoryRecord | null,
+  ) {
+    this.summary = record?.summary ?? null;
+    this.facts = record?.facts ?? [];
+  }
+
+  /**
+   * The caller's memory for an agent with `memory.enabled`. Returns null when memory is off,
+   * the caller has no identity, or the database is unreachable; the call then goes on without.
+   */
+  static async load(
+    agentType: string,
+    config: AgentConfig,
+    caller: Record<string, string> | undefined,
+  ): Promise<CallerMemory | null> {
+    const callerKey = callerMemoryKey(caller);
+    if (!config.memory?.enabled || !callerKey) return null;
+
+    try {
+      const pool = getSharedPool();
+      schemaReady ??= ensureSchema(pool);
+      await schemaReady;
+      const record = await getCallerMemory(pool, agentType, callerKey);
+      console.log(
+        `[Memory] ${agentType} ${record ? `remembers ${record.facts.length} facts about` : 'has no memory of'} ${callerKey}`,
+      );
+      return new CallerMemory(pool, agentType, callerKey, config, record);
+    } catch (err) {
+      schemaReady = undefined;
+      console.warn('[Memory] Failed to load caller memory, the call goes on without it:', err);
+      return null;
+    }
+  }
+
+  private get settings(): CallerMemoryConfig | undefined {
+    return this.config.memory;
+  }
+
+  private get maxFacts(): number {
+    return this.settings?.maxFacts ?? DEFAULT_MAX_FACTS;
+  }
+
+  /** What the agent remembers, for its instructions. */
+  instructions(): string {
+    return memoryInstructions(this.record);
+  }
+
+  /** Resolves to false when the write failed; later saves still go ahead. */
+  private save(label: string, endedCall: boolean): Promise<boolean> {
+    const memory = {
+      agentType: this.agentType,
+      callerKey: this.callerKey,
+      summary: this.summary,
+      facts: this.facts,
+    };
+    const saved = this.pending
+      .then(() => saveCallerMemory(this.pool, memory, { endedCall }))
+      .then(
+        () => true,
+        (err) => {
+          console.warn(`[Memory] Failed to ${label}:`, err);
+          return false;
+        },
+      );
+    this.pending = saved.then(() => undefined);
+    return saved;
+  }
+
+  tools(): llm.ToolContext {
+    const what = this.settings?.instructions ? ` Worth remembering: ${this.settings.instructions}.` : '';
+    return {
+      update_caller_memory: llm.tool({
+        description:
+          'Save facts about the caller for their next call, or forget facts that are wrong or ' +
+          `no longer true. Keep each fact short and self-contained.${what}`,
+        parameters: z.object({
+          remember: z.array(z.string()).optional().describe('New or corrected facts to remember'),
+          forget: z
+            .array(z.string())
+            .optional()
+            .describe('Facts to forget, exactly as you were told them'),
+        }),
+        execute: async ({ remember, forget }) => {
+          this.facts = mergeFacts(
+            this.facts,
+            { ...(remember ? { remember } : {}), ...(forget ? { forget } : {}) },
+            this.maxFacts,
+          );
+          console.log(`[Memory] ${this.callerKey}: ${this.facts.length} facts after update`);
+          if (!(await this.save('save caller memory', false))) {
+            throw new llm.ToolError(
+              'Saving failed. Do not tell the caller this will be remembered next time.',
+            );
+          }
+          return 'Saved.';
+        },
+      }),
+    };
+  }
+
+  /**
+   * Fold a finished call into the memory: the agent's model rewrites the summary and facts
+   * from what was known before and the transcript. Counts the call even when the model fails.
+   */
+  async rememberCall(transcript: string): Promise<void> {
+    await this.pending;
+    if (transcript) {
+      try {
+        const updated = await this.summarize(transcript);
+        if (updated) {
+          this.summary = updated.summary.trim() || this.summary;
+          this.facts = mergeFacts([], { remember: updated.facts }, this.maxFacts);
+        }
+      } catch (err) {
+        console.warn('[Memory] Failed to summarize the call:', err);
+      }
+    }
+    await this.save('store caller memory', true);
+  }
+
+  private async summarize(transcript: string): Promise<z.infer<typeof SummarySchema> | null> {
+    const chatCtx = llm.ChatContext.empty();
+    chatCtx.addMessage({
+      role: 'system',
+      content: [
+        'You keep notes about a caller for a phone agent, to use on their next call.',
+        'Reply with a single JSON object: {"summary": string, "facts": string[]}.',
+        'summary: at most three sentences covering all calls so far, most recent first.',
+        `facts: at most ${this.maxFacts} short, self-contained facts that are still true, such as ` +
+          'names, order or shipment numbers, addresses, preferences and open issues. Drop facts the ' +
+          'latest call shows are wrong or resolved.',
+        this.settings?.instructions ? `Worth remembering: ${this.settings.instructions}` : '',
+      ]
+        .filter(Boolean)
+        .join('\n'),
+    });
+    chatCtx.addMessage({
+      role: 'user',
+      content: [
+        `Summary so far: ${this.summary ?? '(none)'}`,
+        `Facts so far:\n${this.facts.map((f) => `- ${f}`).join('\n') || '(none)'}`,
+        `Latest call:\n${transcript}`,
+      ].join('\n\n'),
+    });
+
+    const model = new openai.LLM({ model: this.config.model });
+    let reply = '';
+    const stream = model.chat({ chatCtx, extraKwargs: { response_format: { type: 'json_object' } } });
+    for await (const chunk of stream) {
+      reply += chunk.delta?.content ?? '';
+    }
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(reply);
+    } catch {
+      console.warn(`[Memory] Model reply is not JSON: ${reply.slice(0, 200)}`);
+      return null;
+    }
+    const parsed = SummarySchema.safeParse(raw);
+    if (!parsed.success) {
+      console.warn('[Memory] Summary failed validation:', parsed.error.issues);
+      return null;
+    }
+    return parsed.data;
+  }
+}
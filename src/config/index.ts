@@ -1,5 +1,10 @@
 import { z } from 'zod';
 
+import { getKnowledgeSnapshot } from '../db/knowledge-snapshots.js';
+import { getSharedPool } from '../db/mysql.js';
+import { type KnowledgeDocument, KnowledgeIndex } from '../knowledge/bm25.js';
+import { displayFilename, readKnowledgeFileText } from '../knowledge/files.js';
+import { fetchPageDocuments, refreshKnowledgeSnapshot, snapshotKey } from '../knowledge/snapshots.js';
 import { loadConfigFromFile } from './providers/file.js';
 import { loadConfigFromMysql } from './providers/mysql.js';
 import { KnowledgeItemSchema, type AgentConfig, type Config, type KnowledgeItem } from './types.js';
@@ -36,6 +41,12 @@ async function loadConfig(): Promise<Config> {
   }
 }
 
+// Strict lookup without the default fallback, e.g. for validating handoff targets.
+export async function findAgentConfig(agentType: string): Promise<AgentConfig | undefined> {
+  const config = await loadConfig();
+  return config.agents[agentType];
+}
+
 export async function getAgentConfig(agentType: string): Promise<AgentConfig> {
   const config = await loadConfig();
   const agentConfig = config.agents[agentType] ?? config.agents.default;
@@ -45,61 +56,116 @@ export async function getAgentConfig(agentType: string): Promise<AgentConfig> {
   return agentConfig;
 }
 
-function stripHtmlToText(html: string): string {
-  return html
-    .replace(/<script[\s\S]*?>[\s\S]*?<\/script>/gi, ' ')
-    .replace(/<style[\s\S]*?>[\s\S]*?<\/style>/gi, ' ')
-    .replace(/<\/?[^>]+>/g, ' ')
-    .replace(/\s+/g, ' ')
-    .trim();
-}
+// Stored snapshot when there is one. Calls never crawl: a missing snapshot is fetched in the
+// background for later calls, and the file config source reads the item's start page only.
+async function resolveWebsiteItem(item: KnowledgeItem): Promise<KnowledgeDocument[]> {
+  const reference = [{ source: item.title ?? item.value, text: `Website: ${item.value}` }];
+  if (getConfigSource() === 'mysql') {
+    try {
+      const pool = getSharedPool();
+      const snapshot = await getKnowledgeSnapshot(pool, snapshotKey(item));
+      if (snapshot?.documents?.length) {
+        if (snapshot.error) {
+          console.warn(
+            `[Knowledge] Using snapshot of ${item.value} from ${snapshot.fetchedAt?.toISOString()}; ` +
+              `last refresh failed: ${snapshot.error}`,
+          );
+        }
+        return snapshot.documents;
+      }
+      if (snapshot) {
+        console.warn(`[Knowledge] No snapshot of ${item.value} yet: ${snapshot.error ?? 'nothing readable'}`);
+      } else {
+        console.log(`[Knowledge] No snapshot of ${item.value} yet; fetching it for later calls`);
+        void refreshKnowledgeSnapshot(pool, item).catch((err) =>
+          console.warn(`[Knowledge] Background snapshot of ${item.value} failed: ${(err as Error).message}`),
+        );
+      }
+      return reference;
+    } catch (err) {
+      console.warn(`[Knowledge] Could not read snapshot of ${item.value}: ${(err as Error).message}`);
+    }
+  }
 
-async function resolveKnowledgeText(items: KnowledgeItem[]): Promise<string[]> {
-  const maxCharsPerItem = Number(process.env.KNOWLEDGE_MAX_CHARS_PER_ITEM ?? 25_000);
+  try {
+    return await fetchPageDocuments(item);
+  } catch (err) {
+    console.warn(`[Knowledge] Could not fetch ${item.value}: ${(err as Error).message}`);
+    return reference;
+  }
+}
 
-  const out: string[] = [];
-  for (const item of items) {
+// Full text of each item; prompt mode truncates it, search mode indexes all of it.
+async function resolveKnowledgeDocuments(items: KnowledgeItem[]): Promise<KnowledgeDocument[]> {
+  const out: KnowledgeDocument[] = [];
+  for (const [i, item] of items.entries()) {
     if (item.type === 'page') {
-      out.push(item.value.slice(0, maxCharsPerItem));
+      out.push({ source: item.title ?? `Page ${i + 1}`, text: item.value });
       continue;
     }
 
     if (item.type === 'website') {
-      // Best-effort. If the fetch fails, we just keep the URL reference.
-      try {
-        const res = await fetch(item.value, { redirect: 'follow' });
-        const html = await res.text();
-        const text = stripHtmlToText(html).slice(0, maxCharsPerItem);
-        out.push(text.length ? text : `Website: ${item.value}`);
-      } catch {
-        out.push(`Website: ${item.value}`);
-      }
+      out.push(...(await resolveWebsiteItem(item)));
       continue;
     }
 
     if (item.type === 'file') {
-      // For now, include just the file reference; the admin can upload, but parsing is app-specific.
-      out.push(`File: ${item.value}`);
+      const source = item.title ?? displayFilename(item.value);
+      // Text extracted at upload time; keep the file reference if there is none.
+      try {
+        const pool = getConfigSource() === 'mysql' ? getSharedPool() : undefined;
+        out.push({ source, text: await readKnowledgeFileText(item.value, pool) });
+      } catch (err) {
+        console.warn(`[Knowledge] No text for file ${item.value}: ${(err as Error).message}`);
+        out.push({ source, text: `File: ${item.value}` });
+      }
     }
   }
 
   return out;
 }
 
-export async function buildInstructionsWithKnowledge(agentConfig: AgentConfig): Promise<string> {
+export type AgentKnowledge = {
+  // Agent instructions with the knowledge (prompt mode) or a pointer to the search tool
+  instructions: string;
+  // Set in search mode; backs the search_knowledge tool
+  index?: KnowledgeIndex;
+};
+
+export async function buildAgentKnowledge(agentConfig: AgentConfig): Promise<AgentKnowledge> {
   const itemsRaw = agentConfig.knowledge ?? [];
   const items = z.array(KnowledgeItemSchema).safeParse(itemsRaw);
   const knowledgeItems = items.success ? items.data : [];
 
-  if (knowledgeItems.length === 0) return agentConfig.instructions;
+  if (knowledgeItems.length === 0) return { instructions: agentConfig.instructions };
+
+  const documents = (await resolveKnowledgeDocuments(knowledgeItems)).filter((d) => d.text);
+  const mode = agentConfig.knowledgeSearch?.mode ?? 'auto';
+  const promptMaxChars = Number(process.env.KNOWLEDGE_PROMPT_MAX_CHARS ?? 12_000);
+  const totalChars = documents.reduce((sum, d) => sum + d.text.length, 0);
+
+  if (mode === 'search' || (mode === 'auto' && totalChars > promptMaxChars)) {
+    const index = KnowledgeIndex.fromDocuments(documents, agentConfig.knowledgeSearch?.chunkChars);
+    console.log(
+      `[Knowledge] Indexed ${documents.length} items (${totalChars} chars) into ${index.size} passages`,
+    );
+    const sources = index.sources;
+    const covered = sources.slice(0, 20).join('; ') + (sources.length > 20 ? '; and more' : '');
+    return {
+      instructions:
+        `${agentConfig.instructions}\n\n` +
+        `You have a knowledge base covering: ${covered}. ` +
+        `Use the search_knowledge tool to look up facts from it before answering; do not guess.\n`,
+      index,
+    };
+  }
 
-  const resolved = await resolveKnowledgeText(knowledgeItems);
-  const knowledgeBlock = resolved
-    .filter(Boolean)
-    .map((t, i) => `- [${i + 1}] ${t}`)
+  const maxCharsPerItem = Number(process.env.KNOWLEDGE_MAX_CHARS_PER_ITEM ?? 25_000);
+  const knowledgeBlock = documents
+    .map((d, i) => `- [${i + 1}] ${d.text.slice(0, maxCharsPerItem)}`)
     .join('\n');
 
-  return `${agentConfig.instructions}\n\nAdditional knowledge (use it when relevant):\n${knowledgeBlock}\n`;
+  return {
+    instructions: `${agentConfig.instructions}\n\nAdditional knowledge (use it when relevant):\n${knowledgeBlock}\n`,
+  };
 }
-
-
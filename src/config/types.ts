@@ -1,14 +1,338 @@
 import { z } from 'zod';
 
+export const CrawlConfigSchema = z.object({
+  // Link hops from the start URL; 0 fetches only the start page (plus sitemap pages)
+  maxDepth: z.number().int().min(0).max(5).optional(),
+  maxPages: z.number().int().min(1).max(500).optional(),
+  // Only follow links on the start URL's origin (default true)
+  sameOrigin: z.boolean().optional(),
+  // Seed the crawl from robots.txt sitemaps or /sitemap.xml (default true)
+  sitemap: z.boolean().optional(),
+  respectRobots: z.boolean().optional(),
+  // "*" wildcards matched against the URL path, or the full URL when the pattern has "://"
+  include: z.array(z.string().trim().min(1)).optional(),
+  exclude: z.array(z.string().trim().min(1)).optional(),
+});
+
+export type CrawlConfig = z.infer<typeof CrawlConfigSchema>;
+
 export const KnowledgeItemSchema = z.object({
   // Matches the “Knowledge” UI concepts: website import, upload file, add page
   type: z.enum(['website', 'file', 'page']),
   title: z.string().trim().min(1).optional(),
   value: z.string().trim().min(1),
+  // Website items only: crawl linked pages instead of fetching just this URL
+  crawl: CrawlConfigSchema.optional(),
+  // Website items only: re-fetch the stored snapshot this often (default: only on save or
+  // an explicit refresh)
+  refreshIntervalHours: z.number().min(1).max(720).optional(),
 });
 
 export type KnowledgeItem = z.infer<typeof KnowledgeItemSchema>;
 
+export const KnowledgeSearchSchema = z.object({
+  // 'prompt' appends all knowledge to the instructions, 'search' gives the agent a
+  // search_knowledge tool instead, 'auto' (default) searches once knowledge outgrows the prompt
+  mode: z.enum(['auto', 'prompt', 'search']).optional(),
+  // Passages returned per search
+  topK: z.number().int().min(1).max(20).optional(),
+  chunkChars: z.number().int().min(200).max(8_000).optional(),
+});
+
+export type KnowledgeSearch = z.infer<typeof KnowledgeSearchSchema>;
+
+// Names of the tools agents get built in (knowledge search, handoffs, caller memory)
+export const RESERVED_TOOL_NAMES = ['search_knowledge', 'transfer_to_agent', 'update_caller_memory'];
+
+export const HttpToolSchema = z.object({
+  // Function name exposed to the LLM, so keep it to what OpenAI accepts
+  name: z
+    .string()
+    .trim()
+    .regex(/^[a-zA-Z0-9_-]{1,64}$/, 'Use letters, digits, "_" or "-" (max 64)')
+    .refine(
+      (name) => !RESERVED_TOOL_NAMES.includes(name),
+      (name) => ({ message: `"${name}" is the name of a built-in tool; choose another name` }),
+    ),
+  description: z.string().trim().min(1),
+  // JSON schema of the arguments the model should produce
+  parameters: z.record(z.unknown()).optional(),
+  method: z.enum(['GET', 'POST', 'PUT', 'PATCH', 'DELETE']).optional(),
+  // May contain {{argName}} and {{env.NAME}} placeholders
+  url: z.string().trim().min(1),
+  headers: z.record(z.string()).optional(),
+  timeoutMs: z.number().int().positive().max(60_000).optional(),
+});
+
+export type HttpTool = z.infer<typeof HttpToolSchema>;
+
+export const SttConfigSchema = z.object({
+  // 'openai' uses the OpenAI plugin; 'livekit' uses LiveKit Inference models such as deepgram/nova-3
+  provider: z.enum(['openai', 'livekit']).optional(),
+  model: z.string().trim().min(1).optional(),
+  // ISO 639-1 code, e.g. "en" or "es"
+  language: z.string().trim().min(1).optional(),
+  // Domain vocabulary (menu items, SKUs, names) to bias recognition towards
+  keywords: z.array(z.string().trim().min(1)).optional(),
+  // Free-form context prompt, used by providers that accept one (OpenAI)
+  prompt: z.string().trim().min(1).optional(),
+});
+
+export type SttConfig = z.infer<typeof SttConfigSchema>;
+
+export const TtsFallbackSchema = z.object({
+  provider: z.enum(['inworld', 'openai']),
+  model: z.string().trim().min(1).optional(),
+  // Used when the agent's current voice has no entry in `voiceMap`
+  voice: z.string().trim().min(1).optional(),
+  // Agent voice (including locale voices) -> voice of this provider, e.g. {"Ashley": "coral"}
+  voiceMap: z.record(z.string().trim().min(1)).optional(),
+});
+
+export type TtsFallback = z.infer<typeof TtsFallbackSchema>;
+
+export const FallbackConfigSchema = z.object({
+  // Chat models tried in order after `model` fails or times out, e.g. ["gpt-4o-mini"]
+  llm: z.array(z.string().trim().min(1)).optional(),
+  // How long one LLM attempt may take before the next model is tried (default 5)
+  llmTimeoutSeconds: z.number().min(1).max(60).optional(),
+  // Tried in order after `stt`; keywords and prompt default to the agent's `stt`
+  stt: z.array(SttConfigSchema).optional(),
+  // Tried in order after the Inworld voice
+  tts: z.array(TtsFallbackSchema).optional(),
+});
+
+export type FallbackConfig = z.infer<typeof FallbackConfigSchema>;
+
+function isValidRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const PronunciationConfigSchema = z.object({
+  // Word or phrase -> how the voice should say it, e.g. {"Oly": "Oh-lee", "SKU": "skew"};
+  // matched case-insensitively as whole words
+  lexicon: z.record(z.string().trim().min(1)).optional(),
+  // Rewrites applied to spoken text (default: all of them)
+  rules: z.array(z.enum(['urls', 'orderIds', 'phoneNumbers', 'prices', 'dates'])).optional(),
+  // Order IDs to spell out character by character; replaces the default of codes that mix
+  // capital letters and digits (AB12345, ORD-2291-X) and "#" numbers (#10482)
+  orderIdPattern: z.string().min(1).refine(isValidRegex, 'Invalid regular expression').optional(),
+  // How to read numeric dates such as 03/04/2025 (default 'mdy')
+  dateOrder: z.enum(['mdy', 'dmy']).optional(),
+});
+
+export type PronunciationConfig = z.infer<typeof PronunciationConfigSchema>;
+
+export const RecordingConfigSchema = z.object({
+  // Record caller and agent audio to RECORDINGS_DIR (see recording.ts)
+  enabled: z.boolean(),
+  // Spoken before anything else; the stored recording starts once it has been played
+  consentDisclosure: z.string().trim().min(1).optional(),
+});
+
+export type RecordingConfig = z.infer<typeof RecordingConfigSchema>;
+
+export const TurnTakingConfigSchema = z
+  .object({
+    // Silence before the agent answers once the caller seems done (default 500)
+    minEndpointingDelayMs: z.number().int().min(0).max(10_000).optional(),
+    // Longest wait when the turn detector expects the caller to go on (default 6000)
+    maxEndpointingDelayMs: z.number().int().min(0).max(30_000).optional(),
+    // Let the caller talk over the agent (default true)
+    allowInterruptions: z.boolean().optional(),
+    // Caller speech needed to interrupt: duration (default 500) and transcribed words (default 0)
+    minInterruptionDurationMs: z.number().int().min(0).max(10_000).optional(),
+    minInterruptionWords: z.number().int().min(0).max(20).optional(),
+    // LiveKit's multilingual turn detector (default true); off ends turns on silence alone
+    turnDetector: z.boolean().optional(),
+    // Start the reply while the caller may still be finishing (default true)
+    preemptiveGeneration: z.boolean().optional(),
+    // Let the caller cut the greeting short (default: allowInterruptions)
+    interruptibleGreeting: z.boolean().optional(),
+  })
+  .refine(
+    (t) =>
+      t.minEndpointingDelayMs === undefined ||
+      t.maxEndpointingDelayMs === undefined ||
+      t.minEndpointingDelayMs <= t.maxEndpointingDelayMs,
+    { message: 'minEndpointingDelayMs must not be above maxEndpointingDelayMs' },
+  );
+
+export type TurnTakingConfig = z.infer<typeof TurnTakingConfigSchema>;
+
+export const CallerMemoryConfigSchema = z.object({
+  // Remember each caller across calls, keyed by SIP phone number or participant identity
+  enabled: z.boolean(),
+  // What to keep, e.g. "shipment numbers, delivery address, open complaints"
+  instructions: z.string().trim().min(1).optional(),
+  // Most facts kept per caller (default 20)
+  maxFacts: z.number().int().min(1).max(100).optional(),
+});
+
+export type CallerMemoryConfig = z.infer<typeof CallerMemoryConfigSchema>;
+
+export const WEBHOOK_EVENTS = ['session.started', 'turn.completed', 'tool.invoked', 'session.ended'] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export const WEBHOOK_SECRET_RE = /^\{\{\s*env\.([\w-]+)\s*\}\}$/;
+
+export const WebhookSchema = z.object({
+  url: z.string().trim().url(),
+  // Events to send (default: all of them)
+  events: z.array(z.enum(WEBHOOK_EVENTS)).nonempty().optional(),
+  // {{env.NAME}} of the HMAC-SHA256 signing key (default WEBHOOK_SECRET). Only the variable
+  // name is stored with queued deliveries, so the key itself must come from the environment
+  secret: z
+    .string()
+    .trim()
+    .regex(WEBHOOK_SECRET_RE, 'Use {{env.NAME}} and set the signing key in that environment variable')
+    .optional(),
+});
+
+export type Webhook = z.infer<typeof WebhookSchema>;
+
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// "HH:MM" in 24-hour time; "24:00" closes at midnight
+const TimeOfDaySchema = z.string().regex(/^(?:[01]\d|2[0-3]):[0-5]\d$|^24:00$/, 'Use HH:MM, e.g. 09:00');
+
+export const WEEKDAYS = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'] as const;
+
+export const OpeningPeriodSchema = z.object({
+  open: TimeOfDaySchema,
+  // A close before the open time runs past midnight, e.g. 18:00-02:00
+  close: TimeOfDaySchema,
+});
+
+export type OpeningPeriod = z.infer<typeof OpeningPeriodSchema>;
+
+export const BusinessHoursConfigSchema = z.object({
+  // IANA time zone the hours are in, e.g. "America/New_York"
+  timezone: z.string().trim().refine(isValidTimeZone, 'Unknown time zone'),
+  // Open periods per day, e.g. {"mon": [{"open": "09:00", "close": "17:00"}]}; unlisted days are closed
+  weekly: z.record(z.enum(WEEKDAYS), z.array(OpeningPeriodSchema)),
+  // Local dates ("2025-12-25") closed all day
+  holidays: z.array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD')).optional(),
+  // Used instead of `greeting` while closed
+  closedGreeting: z.string().trim().min(1).optional(),
+  // Used instead of `instructions` while closed; by default the instructions get a note that
+  // the business is closed, with the opening hours
+  closedInstructions: z.string().trim().min(1).optional(),
+});
+
+export type BusinessHoursConfig = z.infer<typeof BusinessHoursConfigSchema>;
+
+// Range a room may set a numeric field to
+const OverrideBoundsSchema = z
+  .object({ min: z.number(), max: z.number() })
+  .refine((b) => b.min <= b.max, 'min must not be above max');
+
+const TextOverrideSchema = z.object({
+  // Longest text a room may pass (default 1000 characters)
+  maxLength: z.number().int().positive().max(10_000).optional(),
+});
+
+// Fields the room metadata may override for one call; fields not listed keep the config value
+export const RoomOverridesConfigSchema = z
+  .object({
+    // Inworld voices a room may pick; without `allowed` any voice
+    voice: z.object({ allowed: z.array(z.string().trim().min(1)).nonempty().optional() }).optional(),
+    speakingRate: OverrideBoundsSchema.optional(),
+    temperature: OverrideBoundsSchema.optional(),
+    // Extra instructions, appended to the agent's own
+    instructions: TextOverrideSchema.optional(),
+    greeting: TextOverrideSchema.optional(),
+  })
+  .strict();
+
+export type RoomOverridesConfig = z.infer<typeof RoomOverridesConfigSchema>;
+
+export const LocaleConfigSchema = z.object({
+  greeting: z.string().trim().min(1).optional(),
+  voice: z.string().trim().min(1).optional(),
+  // Appended to the agent instructions once the caller's language is known
+  instructions: z.string().trim().min(1).optional(),
+});
+
+export type LocaleConfig = z.infer<typeof LocaleConfigSchema>;
+
+export const ExtractionFieldSchema = z.object({
+  type: z.enum(['string', 'number', 'boolean']).optional(),
+  description: z.string().trim().min(1).optional(),
+  // Allowed values for a string field
+  enum: z.array(z.string().trim().min(1)).nonempty().optional(),
+  // Required fields are logged as missing when the call did not establish them
+  required: z.boolean().optional(),
+});
+
+export type ExtractionField = z.infer<typeof ExtractionFieldSchema>;
+
+export const ExtractionConfigSchema = z.object({
+  // Keyed by the property name in the result, e.g. customerName, orderNumber
+  fields: z.record(
+    z.string().regex(/^[a-zA-Z_][a-zA-Z0-9_]*$/, 'Use letters, digits or "_"'),
+    ExtractionFieldSchema,
+  ),
+  // Extra guidance for the extraction model
+  instructions: z.string().trim().min(1).optional(),
+});
+
+export type ExtractionConfig = z.infer<typeof ExtractionConfigSchema>;
+
+export const InactivityConfigSchema = z.object({
+  // Seconds of caller silence, while the agent is listening, before each reprompt
+  timeoutSeconds: z.number().positive().max(600),
+  // Spoken in turn on each timeout; defaults to a single "Are you still there?"
+  reprompts: z.array(z.string().trim().min(1)).optional(),
+  // Reprompts before giving up; defaults to the number of reprompts
+  maxAttempts: z.number().int().min(0).max(10).optional(),
+  // Spoken before the agent hangs up
+  goodbye: z.string().trim().min(1).optional(),
+});
+
+export type InactivityConfig = z.infer<typeof InactivityConfigSchema>;
+
+export const MaxDurationConfigSchema = z
+  .object({
+    // Hard limit on call length
+    maxSeconds: z.number().int().positive(),
+    // When the agent is told to start wrapping up
+    warnAfterSeconds: z.number().int().positive().optional(),
+    // Replaces the default wrap-up instruction given to the model at the warning
+    wrapUpInstructions: z.string().trim().min(1).optional(),
+    // Spoken at the limit, just before the agent hangs up
+    closingLine: z.string().trim().min(1).optional(),
+  })
+  .refine((d) => d.warnAfterSeconds === undefined || d.warnAfterSeconds < d.maxSeconds, {
+    message: 'warnAfterSeconds must be less than maxSeconds',
+    path: ['warnAfterSeconds'],
+  });
+
+export type MaxDurationConfig = z.infer<typeof MaxDurationConfigSchema>;
+
+export const RealtimeConfigSchema = z.object({
+  // OpenAI realtime model (default gpt-realtime)
+  model: z.string().trim().min(1).optional(),
+  // OpenAI voice such as marin or coral; the Inworld `voice` is not used in realtime mode
+  voice: z.string().trim().min(1).optional(),
+  speed: z.number().min(0.25).max(1.5).optional(),
+});
+
+export type RealtimeConfig = z.infer<typeof RealtimeConfigSchema>;
+
 export const AgentConfigSchema = z.object({
   agentName: z.string().trim().min(1),
   instructions: z.string().trim().min(1),
@@ -18,7 +342,45 @@ export const AgentConfigSchema = z.object({
   ttsModel: z.string().trim().min(1),
   temperature: z.number(),
   speakingRate: z.number(),
+  // 'cascade' (default): STT, then `model`, then Inworld TTS.
+  // 'realtime': OpenAI speech-to-speech with the `realtime` settings
+  pipeline: z.enum(['cascade', 'realtime']).optional(),
+  realtime: RealtimeConfigSchema.optional(),
   knowledge: z.array(KnowledgeItemSchema).optional(),
+  knowledgeSearch: KnowledgeSearchSchema.optional(),
+  stt: SttConfigSchema.optional(),
+  // Extra languages keyed by language code ("es", "fr"); the primary one is stt.language
+  locales: z.record(LocaleConfigSchema).optional(),
+  tools: z
+    .array(HttpToolSchema)
+    .refine((tools) => new Set(tools.map((t) => t.name)).size === tools.length, {
+      message: 'Tool names must be unique',
+    })
+    .optional(),
+  // Agent types this agent may transfer a live call to
+  handoffs: z.array(z.string().trim().min(1)).optional(),
+  // Structured data pulled from the transcript when the call ends
+  extraction: ExtractionConfigSchema.optional(),
+  // Reprompt a silent caller and hang up after repeated silence
+  inactivity: InactivityConfigSchema.optional(),
+  // Wrap up and end calls that run too long
+  maxDuration: MaxDurationConfigSchema.optional(),
+  // Backup providers the cascade pipeline switches to when one fails
+  fallbacks: FallbackConfigSchema.optional(),
+  // How the Inworld voice reads brand names, codes, numbers and addresses
+  pronunciation: PronunciationConfigSchema.optional(),
+  // Keep an audio recording of each call, after an optional consent disclosure
+  recording: RecordingConfigSchema.optional(),
+  // Signed HTTP callbacks for session lifecycle events (see webhooks.ts)
+  webhooks: z.array(WebhookSchema).optional(),
+  // Opening hours; calls outside them get the after-hours greeting and instructions
+  businessHours: BusinessHoursConfigSchema.optional(),
+  // What the room metadata's `overrides` may change per call, e.g. to A/B voices
+  roomOverrides: RoomOverridesConfigSchema.optional(),
+  // Summary and facts about repeat callers, carried from one call to the next
+  memory: CallerMemoryConfigSchema.optional(),
+  // Endpointing, barge-in and turn detection; phone lines and kiosks need different settings
+  turnTaking: TurnTakingConfigSchema.optional(),
 });
 
 export type AgentConfig = z.infer<typeof AgentConfigSchema>;
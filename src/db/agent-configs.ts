@@ -0,0 +1,221 @@
+import { z } from 'zod';
+
+import { AgentConfigSchema, type AgentConfig } from '../config/types.js';
+import type { MySqlPool } from './mysql.js';
+
+export type DbAgentRow = {
+  agent_type: string;
+  agent_name: string;
+  instructions: string;
+  greeting: string;
+  voice: string;
+  model: string;
+  tts_model: string;
+  temperature: number;
+  speaking_rate: number;
+  pipeline?: string | null;
+  realtime_json?: string | null;
+  knowledge_json: string | null;
+  knowledge_search_json?: string | null;
+  stt_json?: string | null;
+  locales_json?: string | null;
+  tools_json?: string | null;
+  handoffs_json?: string | null;
+  extraction_json?: string | null;
+  inactivity_json?: string | null;
+  max_duration_json?: string | null;
+  fallbacks_json?: string | null;
+  pronunciation_json?: string | null;
+  recording_json?: string | null;
+  webhooks_json?: string | null;
+  business_hours_json?: string | null;
+  room_overrides_json?: string | null;
+  memory_json?: string | null;
+  turn_taking_json?: string | null;
+  created_at?: Date;
+  updated_at?: Date;
+};
+
+// JSON columns are best-effort: a malformed value is dropped rather than breaking the agent.
+function parseJsonColumn<T extends z.ZodTypeAny>(
+  raw: string | null | undefined,
+  schema: T,
+): z.infer<T> | undefined {
+  if (!raw) return undefined;
+  try {
+    const parsed = schema.safeParse(JSON.parse(raw) as unknown);
+    return parsed.success ? parsed.data : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function rowToAgentConfig(r: DbAgentRow): AgentConfig {
+  const base: AgentConfig = {
+    agentName: r.agent_name,
+    instructions: r.instructions,
+    greeting: r.greeting,
+    voice: r.voice,
+    model: r.model,
+    ttsModel: r.tts_model,
+    temperature: Number(r.temperature),
+    speakingRate: Number(r.speaking_rate),
+  };
+
+  const pipeline = AgentConfigSchema.shape.pipeline.safeParse(r.pipeline ?? undefined);
+  if (pipeline.success && pipeline.data) base.pipeline = pipeline.data;
+
+  const realtime = parseJsonColumn(r.realtime_json, AgentConfigSchema.shape.realtime);
+  if (realtime) base.realtime = realtime;
+
+  const knowledge = parseJsonColumn(r.knowledge_json, AgentConfigSchema.shape.knowledge);
+  if (knowledge) base.knowledge = knowledge;
+
+  const knowledgeSearch = parseJsonColumn(
+    r.knowledge_search_json,
+    AgentConfigSchema.shape.knowledgeSearch,
+  );
+  if (knowledgeSearch) base.knowledgeSearch = knowledgeSearch;
+
+  const stt = parseJsonColumn(r.stt_json, AgentConfigSchema.shape.stt);
+  if (stt) base.stt = stt;
+
+  const locales = parseJsonColumn(r.locales_json, AgentConfigSchema.shape.locales);
+  if (locales) base.locales = locales;
+
+  const tools = parseJsonColumn(r.tools_json, AgentConfigSchema.shape.tools);
+  if (tools) base.tools = tools;
+
+  const handoffs = parseJsonColumn(r.handoffs_json, AgentConfigSchema.shape.handoffs);
+  if (handoffs) base.handoffs = handoffs;
+
+  const extraction = parseJsonColumn(r.extraction_json, AgentConfigSchema.shape.extraction);
+  if (extraction) base.extraction = extraction;
+
+  const inactivity = parseJsonColumn(r.inactivity_json, AgentConfigSchema.shape.inactivity);
+  if (inactivity) base.inactivity = inactivity;
+
+  const maxDuration = parseJsonColumn(r.max_duration_json, AgentConfigSchema.shape.maxDuration);
+  if (maxDuration) base.maxDuration = maxDuration;
+
+  const fallbacks = parseJsonColumn(r.fallbacks_json, AgentConfigSchema.shape.fallbacks);
+  if (fallbacks) base.fallbacks = fallbacks;
+
+  const pronunciation = parseJsonColumn(r.pronunciation_json, AgentConfigSchema.shape.pronunciation);
+  if (pronunciation) base.pronunciation = pronunciation;
+
+  const recording = parseJsonColumn(r.recording_json, AgentConfigSchema.shape.recording);
+  if (recording) base.recording = recording;
+
+  const webhooks = parseJsonColumn(r.webhooks_json, AgentConfigSchema.shape.webhooks);
+  if (webhooks) base.webhooks = webhooks;
+
+  const businessHours = parseJsonColumn(
+    r.business_hours_json,
+    AgentConfigSchema.shape.businessHours,
+  );
+  if (businessHours) base.businessHours = businessHours;
+
+  const roomOverrides = parseJsonColumn(r.room_overrides_json, AgentConfigSchema.shape.roomOverrides);
+  if (roomOverrides) base.roomOverrides = roomOverrides;
+
+  const memory = parseJsonColumn(r.memory_json, AgentConfigSchema.shape.memory);
+  if (memory) base.memory = memory;
+
+  const turnTaking = parseJsonColumn(r.turn_taking_json, AgentConfigSchema.shape.turnTaking);
+  if (turnTaking) base.turnTaking = turnTaking;
+
+  return base;
+}
+
+export async function upsertAgentConfig(
+  pool: MySqlPool,
+  agentType: string,
+  config: AgentConfig,
+): Promise<void> {
+  const realtimeJson = config.realtime ? JSON.stringify(config.realtime) : null;
+  const knowledgeJson = config.knowledge ? JSON.stringify(config.knowledge) : null;
+  const knowledgeSearchJson = config.knowledgeSearch
+    ? JSON.stringify(config.knowledgeSearch)
+    : null;
+  const sttJson = config.stt ? JSON.stringify(config.stt) : null;
+  const localesJson =
+    config.locales && Object.keys(config.locales).length ? JSON.stringify(config.locales) : null;
+  const toolsJson = config.tools?.length ? JSON.stringify(config.tools) : null;
+  const handoffsJson = config.handoffs?.length ? JSON.stringify(config.handoffs) : null;
+  const extractionJson = config.extraction ? JSON.stringify(config.extraction) : null;
+  const inactivityJson = config.inactivity ? JSON.stringify(config.inactivity) : null;
+  const maxDurationJson = config.maxDuration ? JSON.stringify(config.maxDuration) : null;
+  const fallbacksJson = config.fallbacks ? JSON.stringify(config.fallbacks) : null;
+  const pronunciationJson = config.pronunciation ? JSON.stringify(config.pronunciation) : null;
+  const recordingJson = config.recording ? JSON.stringify(config.recording) : null;
+  const webhooksJson = config.webhooks ? JSON.stringify(config.webhooks) : null;
+  const businessHoursJson = config.businessHours ? JSON.stringify(config.businessHours) : null;
+  const roomOverridesJson = config.roomOverrides ? JSON.stringify(config.roomOverrides) : null;
+  const memoryJson = config.memory ? JSON.stringify(config.memory) : null;
+  const turnTakingJson = config.turnTaking ? JSON.stringify(config.turnTaking) : null;
+
+  await pool.query(
+    `INSERT INTO agent_configs
+       (agent_type, agent_name, instructions, greeting, voice, model, tts_model, temperature, speaking_rate, pipeline, realtime_json, knowledge_json, knowledge_search_json, stt_json, locales_json, tools_json, handoffs_json, extraction_json, inactivity_json, max_duration_json, fallbacks_json, pronunciation_json, recording_json, webhooks_json, business_hours_json, room_overrides_json, memory_json, turn_taking_json)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+     ON DUPLICATE KEY UPDATE
+       agent_name = VALUES(agent_name),
+       instructions = VALUES(instructions),
+       greeting = VALUES(greeting),
+       voice = VALUES(voice),
+       model = VALUES(model),
+       tts_model = VALUES(tts_model),
+       temperature = VALUES(temperature),
+       speaking_rate = VALUES(speaking_rate),
+       pipeline = VALUES(pipeline),
+       realtime_json = VALUES(realtime_json),
+       knowledge_json = VALUES(knowledge_json),
+       knowledge_search_json = VALUES(knowledge_search_json),
+       stt_json = VALUES(stt_json),
+       locales_json = VALUES(locales_json),
+       tools_json = VALUES(tools_json),
+       handoffs_json = VALUES(handoffs_json),
+       extraction_json = VALUES(extraction_json),
+       inactivity_json = VALUES(inactivity_json),
+       max_duration_json = VALUES(max_duration_json),
+       fallbacks_json = VALUES(fallbacks_json),
+       pronunciation_json = VALUES(pronunciation_json),
+       recording_json = VALUES(recording_json),
+       webhooks_json = VALUES(webhooks_json),
+       business_hours_json = VALUES(business_hours_json),
+       room_overrides_json = VALUES(room_overrides_json),
+       memory_json = VALUES(memory_json),
+       turn_taking_json = VALUES(turn_taking_json)`,
+    [
+      agentType,
+      config.agentName,
+      config.instructions,
+      config.greeting,
+      config.voice,
+      config.model,
+      config.ttsModel,
+      config.temperature,
+      config.speakingRate,
+      config.pipeline ?? null,
+      realtimeJson,
+      knowledgeJson,
+      knowledgeSearchJson,
+      sttJson,
+      localesJson,
+      toolsJson,
+      handoffsJson,
+      extractionJson,
+      inactivityJson,
+      maxDurationJson,
+      fallbacksJson,
+      pronunciationJson,
+      recordingJson,
+      webhooksJson,
+      businessHoursJson,
+      roomOverridesJson,
+      memoryJson,
+      turnTakingJson,
+    ],
+  );
+}
@@ -0,0 +1,117 @@
+/**
+ * Call session persistence
+ *
+ * Records each job as a row in `call_sessions` and every user/agent turn in `call_turns`,
+ * so transcripts outlive the worker process. Enabled with SESSION_STORE=mysql.
+ */
+import { randomUUID } from 'node:crypto';
+
+import { getSharedPool, type MySqlPool } from './mysql.js';
+import { ensureSchema } from './schema.js';
+
+export type CallTurn = {
+  role: string;
+  text: string;
+  interrupted: boolean;
+  createdAt: Date;
+};
+
+export type CallSessionEnd = {
+  // When the call ended, before post-call processing
+  endedAt: Date;
+  usage?: unknown;
+  // Validated result of the agent's post-call extraction, if it has one
+  extraction?: Record<string, unknown> | null;
+  // Why the call ended, e.g. participant_disconnected, caller_inactive, max_duration
+  reason?: string | undefined;
+  // File name of the call recording in RECORDINGS_DIR
+  recordingFile?: string | null;
+};
+
+let schemaReady: Promise<void> | undefined;
+
+function isSessionStoreEnabled(): boolean {
+  return (process.env.SESSION_STORE ?? 'none') === 'mysql';
+}
+
+export class CallSessionRecorder {
+  readonly id = randomUUID();
+  private seq = 0;
+  // Writes are chained so turns land in order and finish() can wait for all of them.
+  private pending: Promise<void> = Promise.resolve();
+
+  private constructor(private readonly pool: MySqlPool) {}
+
+  /**
+   * Create the session row. Returns null when the store is disabled or unreachable;
+   * a database problem should never take down a live call.
+   */
+  static async start(opts: {
+    roomName: string;
+    agentType: string;
+  }): Promise<CallSessionRecorder | null> {
+    if (!isSessionStoreEnabled()) return null;
+
+    try {
+      const pool = getSharedPool();
+      schemaReady ??= ensureSchema(pool);
+      await schemaReady;
+
+      const recorder = new CallSessionRecorder(pool);
+      await pool.query(
+        `INSERT INTO call_sessions (id, room_name, agent_type, started_at) VALUES (?, ?, ?, ?)`,
+        [recorder.id, opts.roomName, opts.agentType, new Date()],
+      );
+      console.log(`[Session] Recording call session ${recorder.id}`);
+      return recorder;
+    } catch (err) {
+      schemaReady = undefined;
+      console.warn('[Session] Failed to start call session, transcript will not be stored:', err);
+      return null;
+    }
+  }
+
+  private enqueue(label: string, write: () => Promise<unknown>): void {
+    this.pending = this.pending
+      .then(async () => {
+        await write();
+      })
+      .catch((err) => console.warn(`[Session] Failed to ${label}:`, err));
+  }
+
+  recordTurn(turn: CallTurn): void {
+    const seq = ++this.seq;
+    this.enqueue('record turn', () =>
+      this.pool.query(
+        `INSERT INTO call_turns (session_id, seq, role, text, interrupted, created_at)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [this.id, seq, turn.role, turn.text, turn.interrupted ? 1 : 0, turn.createdAt],
+      ),
+    );
+  }
+
+  async finish(end: CallSessionEnd): Promise<void> {
+    this.enqueue('close session', () =>
+      this.pool.query(
+        `UPDATE call_sessions
+         SET ended_at = ?, usage_json = ?, extraction_json = ?, end_reason = ?, recording_file = ?
+         WHERE id = ?`,
+        [
+          end.endedAt,
+          end.usage === undefined ? null : JSON.stringify(end.usage),
+          end.extraction ? JSON.stringify(end.extraction) : null,
+          end.reason ?? null,
+          end.recordingFile ?? null,
+          this.id,
+        ],
+      ),
+    );
+    await this.pending;
+  }
+}
+
+/** Unlink deleted recording files from the sessions that point at them. */
+export async function clearRecordingFiles(pool: MySqlPool, files: string[]): Promise<void> {
+  if (!files.length) return;
+  await pool.query('UPDATE call_sessions SET recording_file = NULL WHERE recording_file IN (?)', [files]);
+}
@@ -0,0 +1,111 @@
+import type { MySqlPool } from './mysql.js';
+
+export type CallerMemoryRecord = {
+  agentType: string;
+  callerKey: string;
+  // Running summary of earlier calls
+  summary: string | null;
+  facts: string[];
+  // Calls summarized so far
+  calls: number;
+  lastCallAt: Date | null;
+  updatedAt: Date;
+};
+
+type CallerMemoryRow = {
+  agent_type: string;
+  caller_key: string;
+  summary: string | null;
+  facts_json: string | null;
+  calls: number;
+  last_call_at: Date | null;
+  updated_at: Date;
+};
+
+function parseFacts(raw: string | null): string[] {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return Array.isArray(parsed) ? parsed.filter((f): f is string => typeof f === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+function rowToRecord(r: CallerMemoryRow): CallerMemoryRecord {
+  return {
+    agentType: r.agent_type,
+    callerKey: r.caller_key,
+    summary: r.summary,
+    facts: parseFacts(r.facts_json),
+    calls: Number(r.calls),
+    lastCallAt: r.last_call_at,
+    updatedAt: r.updated_at,
+  };
+}
+
+export async function getCallerMemory(
+  pool: MySqlPool,
+  agentType: string,
+  callerKey: string,
+): Promise<CallerMemoryRecord | null> {
+  const [rows] = (await pool.query(
+    'SELECT * FROM caller_memory WHERE agent_type = ? AND caller_key = ?',
+    [agentType, callerKey],
+  )) as [CallerMemoryRow[], unknown];
+  return rows[0] ? rowToRecord(rows[0]) : null;
+}
+
+/** Everything any agent remembers about one caller. */
+export async function listCallerMemory(pool: MySqlPool, callerKey: string): Promise<CallerMemoryRecord[]> {
+  const [rows] = (await pool.query(
+    'SELECT * FROM caller_memory WHERE caller_key = ? ORDER BY agent_type',
+    [callerKey],
+  )) as [CallerMemoryRow[], unknown];
+  return rows.map(rowToRecord);
+}
+
+/**
+ * Store the caller's summary and facts. `endedCall` counts a finished call; mid-call updates
+ * leave the call count alone.
+ */
+export async function saveCallerMemory(
+  pool: MySqlPool,
+  memory: { agentType: string; callerKey: string; summary: string | null; facts: string[] },
+  opts: { endedCall: boolean },
+): Promise<void> {
+  const now = new Date();
+  const calls = opts.endedCall ? 1 : 0;
+  await pool.query(
+    `INSERT INTO caller_memory (agent_type, caller_key, summary, facts_json, calls, last_call_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)
+     ON DUPLICATE KEY UPDATE
+       summary = VALUES(summary),
+       facts_json = VALUES(facts_json),
+       calls = calls + VALUES(calls),
+       last_call_at = COALESCE(VALUES(last_call_at), last_call_at),
+       updated_at = VALUES(updated_at)`,
+    [
+      memory.agentType,
+      memory.callerKey,
+      memory.summary,
+      JSON.stringify(memory.facts),
+      calls,
+      opts.endedCall ? now : null,
+      now,
+    ],
+  );
+}
+
+/** Forget a caller, for one agent or all of them. Returns the number of agents that forgot. */
+export async function deleteCallerMemory(
+  pool: MySqlPool,
+  callerKey: string,
+  agentType?: string,
+): Promise<number> {
+  const [result] = (await pool.query(
+    `DELETE FROM caller_memory WHERE caller_key = ?${agentType ? ' AND agent_type = ?' : ''}`,
+    agentType ? [callerKey, agentType] : [callerKey],
+  )) as [{ affectedRows: number }, unknown];
+  return result.affectedRows;
+}
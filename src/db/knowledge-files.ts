@@ -0,0 +1,53 @@
+import type { MySqlPool } from './mysql.js';
+
+export type KnowledgeFile = {
+  filename: string;
+  originalName: string;
+  // Extracted plain text, or null when extraction failed
+  text: string | null;
+  error: string | null;
+};
+
+type KnowledgeFileRow = {
+  filename: string;
+  original_name: string;
+  text: string | null;
+  error: string | null;
+};
+
+export async function saveKnowledgeFile(pool: MySqlPool, file: KnowledgeFile): Promise<void> {
+  await pool.query(
+    `INSERT INTO knowledge_files (filename, original_name, text, error)
+     VALUES (?, ?, ?, ?)
+     ON DUPLICATE KEY UPDATE
+       original_name = VALUES(original_name),
+       text = VALUES(text),
+       error = VALUES(error)`,
+    [file.filename, file.originalName, file.text, file.error],
+  );
+}
+
+export async function getKnowledgeFile(
+  pool: MySqlPool,
+  filename: string,
+): Promise<KnowledgeFile | null> {
+  const [rows] = (await pool.query(
+    'SELECT filename, original_name, text, error FROM knowledge_files WHERE filename = ?',
+    [filename],
+  )) as [KnowledgeFileRow[], unknown];
+  const r = rows[0];
+  return r ? { filename: r.filename, originalName: r.original_name, text: r.text, error: r.error } : null;
+}
+
+/** Extraction status of the given files, without their text. */
+export async function listKnowledgeFileStatus(
+  pool: MySqlPool,
+  filenames: string[],
+): Promise<Array<{ filename: string; chars: number; error: string | null }>> {
+  if (filenames.length === 0) return [];
+  const [rows] = (await pool.query(
+    `SELECT filename, CHAR_LENGTH(text) AS chars, error FROM knowledge_files WHERE filename IN (?)`,
+    [filenames],
+  )) as [Array<{ filename: string; chars: number | null; error: string | null }>, unknown];
+  return rows.map((r) => ({ filename: r.filename, chars: Number(r.chars ?? 0), error: r.error }));
+}
@@ -0,0 +1,101 @@
+import type { KnowledgeDocument } from '../knowledge/bm25.js';
+import type { MySqlPool } from './mysql.js';
+
+export type KnowledgeSnapshot = {
+  sourceKey: string;
+  url: string;
+  // Null until the first successful fetch
+  documents: KnowledgeDocument[] | null;
+  contentHash: string | null;
+  fetchedAt: Date | null;
+  // Last fetch attempt, successful or not
+  checkedAt: Date;
+  // Error of the last attempt; the previous documents are kept
+  error: string | null;
+};
+
+type KnowledgeSnapshotRow = {
+  source_key: string;
+  url: string;
+  documents_json: string | null;
+  content_hash: string | null;
+  fetched_at: Date | null;
+  checked_at: Date;
+  error: string | null;
+};
+
+function rowToSnapshot(r: KnowledgeSnapshotRow): KnowledgeSnapshot {
+  return {
+    sourceKey: r.source_key,
+    url: r.url,
+    documents: r.documents_json ? (JSON.parse(r.documents_json) as KnowledgeDocument[]) : null,
+    contentHash: r.content_hash,
+    fetchedAt: r.fetched_at,
+    checkedAt: r.checked_at,
+    error: r.error,
+  };
+}
+
+export async function getKnowledgeSnapshot(
+  pool: MySqlPool,
+  sourceKey: string,
+): Promise<KnowledgeSnapshot | null> {
+  const [rows] = (await pool.query('SELECT * FROM knowledge_snapshots WHERE source_key = ?', [
+    sourceKey,
+  ])) as [KnowledgeSnapshotRow[], unknown];
+  return rows[0] ? rowToSnapshot(rows[0]) : null;
+}
+
+export async function listKnowledgeSnapshots(
+  pool: MySqlPool,
+  sourceKeys: string[],
+): Promise<KnowledgeSnapshot[]> {
+  if (sourceKeys.length === 0) return [];
+  const [rows] = (await pool.query('SELECT * FROM knowledge_snapshots WHERE source_key IN (?)', [
+    sourceKeys,
+  ])) as [KnowledgeSnapshotRow[], unknown];
+  return rows.map(rowToSnapshot);
+}
+
+export async function saveKnowledgeSnapshot(
+  pool: MySqlPool,
+  snapshot: { sourceKey: string; url: string; documents: KnowledgeDocument[]; contentHash: string },
+): Promise<void> {
+  const now = new Date();
+  await pool.query(
+    `INSERT INTO knowledge_snapshots (source_key, url, documents_json, content_hash, fetched_at, checked_at, error)
+     VALUES (?, ?, ?, ?, ?, ?, NULL)
+     ON DUPLICATE KEY UPDATE
+       url = VALUES(url),
+       documents_json = VALUES(documents_json),
+       content_hash = VALUES(content_hash),
+       fetched_at = VALUES(fetched_at),
+       checked_at = VALUES(checked_at),
+       error = NULL`,
+    [snapshot.sourceKey, snapshot.url, JSON.stringify(snapshot.documents), snapshot.contentHash, now, now],
+  );
+}
+
+/** Record a failed fetch without touching the last good documents. */
+export async function recordKnowledgeSnapshotError(
+  pool: MySqlPool,
+  snapshot: { sourceKey: string; url: string; error: string },
+): Promise<void> {
+  await pool.query(
+    `INSERT INTO knowledge_snapshots (source_key, url, checked_at, error)
+     VALUES (?, ?, ?, ?)
+     ON DUPLICATE KEY UPDATE checked_at = VALUES(checked_at), error = VALUES(error)`,
+    [snapshot.sourceKey, snapshot.url, new Date(), snapshot.error],
+  );
+}
+
+/** Remove snapshots no agent refers to any more. */
+export async function deleteUnusedKnowledgeSnapshots(pool: MySqlPool, usedKeys: string[]): Promise<number> {
+  const [result] = (await pool.query(
+    usedKeys.length
+      ? 'DELETE FROM knowledge_snapshots WHERE source_key NOT IN (?)'
+      : 'DELETE FROM knowledge_snapshots',
+    usedKeys.length ? [usedKeys] : [],
+  )) as [{ affectedRows: number }, unknown];
+  return result.affectedRows;
+}
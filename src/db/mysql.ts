@@ -21,4 +21,12 @@ export function createPool() {
 
 export type MySqlPool = ReturnType<typeof createPool>;
 
+let sharedPool: MySqlPool | undefined;
+
+// Long-lived pool for the agent worker, which writes throughout every job.
+export function getSharedPool(): MySqlPool {
+  sharedPool ??= createPool();
+  return sharedPool;
+}
+
 
@@ -0,0 +1,117 @@
+import { randomUUID } from 'node:crypto';
+
+import type { MySqlPool } from './mysql.js';
+
+export type OutboxEntry = {
+  id: string;
+  event: string;
+  url: string;
+  // Environment variable holding the signing key, read when the delivery is sent
+  secretEnv: string;
+  // Serialized JSON body, signed as-is
+  payload: string;
+  // Delivery attempts made so far
+  attempts: number;
+};
+
+type OutboxRow = {
+  id: string;
+  event: string;
+  url: string;
+  secret_env: string;
+  payload: string;
+  attempts: number;
+};
+
+/** Store new deliveries; other processes leave them alone until `sendAfter`. */
+export async function enqueueWebhooks(
+  pool: MySqlPool,
+  entries: Omit<OutboxEntry, 'attempts'>[],
+  sendAfter: Date,
+): Promise<void> {
+  if (entries.length === 0) return;
+  const now = new Date();
+  await pool.query(
+    `INSERT INTO webhook_outbox (id, event, url, secret_env, payload, attempts, next_attempt_at, created_at)
+     VALUES ?`,
+    [entries.map((e) => [e.id, e.event, e.url, e.secretEnv, e.payload, 0, sendAfter, now])],
+  );
+}
+
+/**
+ * Claim up to `limit` deliveries that are due, or the listed `ids` whether due or not. Claimed
+ * rows are hidden from other processes for `leaseMs`, so one that dies mid-delivery only
+ * delays the retry.
+ */
+export async function claimDueWebhooks(
+  pool: MySqlPool,
+  opts: { limit: number; leaseMs: number; ids?: string[] },
+): Promise<OutboxEntry[]> {
+  if (opts.ids?.length === 0) return [];
+  const claimId = randomUUID();
+  const now = new Date();
+  await pool.query(
+    `UPDATE webhook_outbox
+     SET claim_id = ?, claimed_until = ?
+     WHERE delivered_at IS NULL AND failed_at IS NULL
+       AND (claimed_until IS NULL OR claimed_until < ?)
+       AND ${opts.ids ? 'id IN (?)' : 'next_attempt_at <= ?'}
+     ORDER BY created_at
+     LIMIT ?`,
+    [
+      claimId,
+      new Date(now.getTime() + opts.leaseMs),
+      now,
+      opts.ids ?? now,
+      opts.limit,
+    ],
+  );
+  const [rows] = (await pool.query(
+    `SELECT id, event, url, secret_env, payload, attempts FROM webhook_outbox
+     WHERE claim_id = ? ORDER BY created_at`,
+    [claimId],
+  )) as [OutboxRow[], unknown];
+  return rows.map((r) => ({
+    id: r.id,
+    event: r.event,
+    url: r.url,
+    secretEnv: r.secret_env,
+    payload: r.payload,
+    attempts: Number(r.attempts),
+  }));
+}
+
+export async function markWebhookDelivered(pool: MySqlPool, id: string): Promise<void> {
+  await pool.query(
+    `UPDATE webhook_outbox
+     SET delivered_at = ?, attempts = attempts + 1, claim_id = NULL, claimed_until = NULL, last_error = NULL
+     WHERE id = ?`,
+    [new Date(), id],
+  );
+}
+
+/** Record a failed attempt; without `retryAt` the delivery is given up. */
+export async function markWebhookFailed(
+  pool: MySqlPool,
+  id: string,
+  opts: { error: string; retryAt: Date | null },
+): Promise<void> {
+  await pool.query(
+    `UPDATE webhook_outbox
+     SET attempts = attempts + 1, last_error = ?, claim_id = NULL, claimed_until = NULL,
+         next_attempt_at = COALESCE(?, next_attempt_at), failed_at = IF(? IS NULL, ?, NULL)
+     WHERE id = ?`,
+    [opts.error.slice(0, 2_000), opts.retryAt, opts.retryAt, new Date(), id],
+  );
+}
+
+/** Remove delivered and abandoned entries older than `days`. Returns the number removed. */
+export async function deleteSettledWebhooks(pool: MySqlPool, days: number): Promise<number> {
+  const cutoff = new Date(Date.now() - days * 86_400_000);
+  const [result] = (await pool.query(
+    `DELETE FROM webhook_outbox
+     WHERE (delivered_at IS NOT NULL AND delivered_at < ?) OR (failed_at IS NOT NULL AND failed_at < ?)`,
+    [cutoff, cutoff],
+  )) as [{ affectedRows: number }, unknown];
+  return result.affectedRows;
+}
@@ -0,0 +1,32 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import type { ExtractionConfig } from './config/types.js';
+import { buildExtractionSchema, missingRequiredFields } from './extraction.js';
+
+const extraction: ExtractionConfig = {
+  fields: {
+    customerName: { description: "The caller's name" },
+    callbackRequested: { type: 'boolean', required: true },
+    outcome: { enum: ['resolved', 'escalated'], required: true },
+  },
+};
+
+describe('Post-call extraction', () => {
+  it('should keep a result whose required fields the call did not establish', () => {
+    const parsed = buildExtractionSchema(extraction).safeParse({
+      callbackRequested: true,
+      outcome: null,
+    });
+    assert.ok(parsed.success);
+    assert.deepStrictEqual(parsed.data, {
+      customerName: null,
+      callbackRequested: true,
+      outcome: null,
+    });
+    assert.deepStrictEqual(missingRequiredFields(extraction, parsed.data), ['outcome']);
+  });
+
+  it('should reject values of the wrong type', () => {
+    assert.ok(!buildExtractionSchema(extraction).safeParse({ callbackRequested: 'yes' }).success);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Post-call structured data extraction
+ *
+ * When an agent declares `extraction.fields`, the finished transcript is sent to the agent's
+ * LLM in JSON mode and the reply is validated against a schema built from those fields.
+ */
+import { llm } from '@livekit/agents';
+import * as openai from '@livekit/agents-plugin-openai';
+import { z } from 'zod';
+
+import type { AgentConfig, ExtractionConfig, ExtractionField } from './config/types.js';
+
+export type ExtractionResult = Record<string, unknown>;
+
+function fieldSchema(field: ExtractionField): z.ZodTypeAny {
+  const [first, ...rest] = field.enum ?? [];
+  const base: z.ZodTypeAny =
+    field.type === 'number'
+      ? z.number()
+      : field.type === 'boolean'
+        ? z.boolean()
+        : first !== undefined
+          ? z.enum([first, ...rest])
+          : z.string();
+  // Required fields too: a call that never established one still yields the other fields,
+  // and the gap is reported by missingRequiredFields
+  return base.nullable().default(null);
+}
+
+export function buildExtractionSchema(extraction: ExtractionConfig): z.ZodObject<z.ZodRawShape> {
+  return z.object(
+    Object.fromEntries(
+      Object.entries(extraction.fields).map(([name, field]) => [name, fieldSchema(field)]),
+    ),
+  );
+}
+
+function describeFields(extraction: ExtractionConfig): string {
+  return Object.entries(extraction.fields)
+    .map(([name, field]) => {
+      const type = field.enum ? field.enum.map((v) => JSON.stringify(v)).join(' | ') : (field.type ?? 'string');
+      const required = field.required ? ', required' : '';
+      return `- ${name} (${type} | null${required})${field.description ? `: ${field.description}` : ''}`;
+    })
+    .join('\n');
+}
+
+/** Required fields the extraction left null, because the call never established them. */
+export function missingRequiredFields(extraction: ExtractionConfig, result: ExtractionResult): string[] {
+  return Object.entries(extraction.fields)
+    .filter(([name, field]) => field.required && (result[name] ?? null) === null)
+    .map(([name]) => name);
+}
+
+/** "Caller: ..." / "Agent: ..." lines for the user and assistant messages in `chatCtx`. */
+export function formatTranscript(chatCtx: llm.ChatContext): string {
+  return chatCtx.items
+    .flatMap((item) => {
+      if (item.type !== 'message' || (item.role !== 'user' && item.role !== 'assistant')) return [];
+      const text = item.textContent?.trim();
+      if (!text) return [];
+      return [`${item.role === 'user' ? 'Caller' : 'Agent'}: ${text}`];
+    })
+    .join('\n');
+}
+
+/**
+ * Run the extraction for a finished call. Returns null when the agent has no extraction
+ * config, the transcript is empty, or the model's reply does not validate.
+ */
+export async function extractCallData(
+  config: AgentConfig,
+  transcript: string,
+): Promise<ExtractionResult | null> {
+  const extraction = config.extraction;
+  if (!extraction || Object.keys(extraction.fields).length === 0 || !transcript) return null;
+
+  const chatCtx = llm.ChatContext.empty();
+  chatCtx.addMessage({
+    role: 'system',
+    content: [
+      'You extract structured data from phone call transcripts.',
+      'Reply with a single JSON object containing exactly these fields:',
+      describeFields(extraction),
+      'Use null for anything the transcript does not establish, required fields included. Do not guess.',
+      extraction.instructions ?? '',
+    ]
+      .filter(Boolean)
+      .join('\n'),
+  });
+  chatCtx.addMessage({ role: 'user', content: transcript });
+
+  const model = new openai.LLM({ model: config.model });
+  let reply = '';
+  const stream = model.chat({ chatCtx, extraKwargs: { response_format: { type: 'json_object' } } });
+  for await (const chunk of stream) {
+    reply += chunk.delta?.content ?? '';
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(reply);
+  } catch {
+    console.warn(`[Extraction] Model reply is not JSON: ${reply.slice(0, 200)}`);
+    return null;
+  }
+
+  const parsed = buildExtractionSchema(extraction).safeParse(raw);
+  if (!parsed.success) {
+    console.warn('[Extraction] Result failed validation:', parsed.error.issues);
+    return null;
+  }
+  const missing = missingRequiredFields(extraction, parsed.data);
+  if (missing.length) {
+    console.warn(`[Extraction] Required fields missing from the call: ${missing.join(', ')}`);
+  }
+  return parsed.data;
+}
@@ -0,0 +1,348 @@
+/**
+ * Provider fallback chains
+ *
+ * An agent's `fallbacks` block lists backup chat models, STT configs and voices. The LLM and
+ * TTS chains use LiveKit's FallbackAdapter; STT has no adapter in the SDK, so `FallbackSTT`
+ * below switches providers when a stream fails. Failures of a single provider are logged and
+ * absorbed; the session only sees an error once every provider in a chain has failed.
+ * `ProviderUsage` remembers which provider produced the latest output of each kind, so every
+ * turn can be logged with the providers that actually served it.
+ */
+import {
+  APIConnectionError,
+  type APIConnectOptions,
+  type VAD,
+  llm,
+  stt,
+  tokenize,
+  tts,
+} from '@livekit/agents';
+import * as openai from '@livekit/agents-plugin-openai';
+
+import type { AgentConfig, SttConfig, TtsFallback } from './config/types.js';
+import { InworldTTS, type InworldTTSOptions } from './inworld-tts.js';
+import { createNormalizer } from './pronunciation.js';
+import { createStt, setSttLanguage, sttName } from './stt.js';
+
+// Per-attempt LLM timeout when the agent does not set llmTimeoutSeconds
+const DEFAULT_LLM_TIMEOUT_SECONDS = 5;
+const DEFAULT_OPENAI_TTS_MODEL = 'gpt-4o-mini-tts';
+// A failed STT provider is tried last by new streams for this long
+const STT_RECOVERY_MS = 60_000;
+
+type ProviderKind = 'llm' | 'stt' | 'tts';
+
+type MetricsSource = { on(event: 'metrics_collected', listener: () => void): unknown };
+
+export class ProviderUsage {
+  private readonly last: Partial<Record<ProviderKind, string>> = {};
+
+  /** Attribute every metrics event of `source` to the provider `name`. */
+  track(kind: ProviderKind, name: string, source: MetricsSource): void {
+    source.on('metrics_collected', () => {
+      this.last[kind] = name;
+    });
+  }
+
+  /** e.g. "llm=openai/gpt-4o, stt=openai/gpt-4o-transcribe, tts=inworld/inworld-tts-1" */
+  describe(): string {
+    return (['llm', 'stt', 'tts'] as const).map((kind) => `${kind}=${this.last[kind] ?? '-'}`).join(', ');
+  }
+}
+
+export function createLlmChain(config: AgentConfig, usage: ProviderUsage): llm.LLM {
+  const llms = [config.model, ...(config.fallbacks?.llm ?? [])].map((model) => {
+    const instance = new openai.LLM({ model });
+    usage.track('llm', `openai/${model}`, instance);
+    return instance;
+  });
+  if (llms.length === 1) return llms[0]!;
+
+  // Fallbacks only kick in before the first token, so the caller never hears two answers
+  return new llm.FallbackAdapter({
+    llms,
+    attemptTimeout: config.fallbacks?.llmTimeoutSeconds ?? DEFAULT_LLM_TIMEOUT_SECONDS,
+  });
+}
+
+export type TtsChain = {
+  tts: tts.TTS;
+  // Switch every voice in the chain to match `voice`, the agent's (localized) Inworld voice
+  setVoice: (voice: string) => void;
+};
+
+function mappedVoice(entry: TtsFallback, voice: string): string | undefined {
+  return entry.voiceMap?.[voice] ?? entry.voice;
+}
+
+// Voice settings shared by every Inworld voice of the agent
+function inworldOptions(config: AgentConfig): InworldTTSOptions {
+  return {
+    temperature: config.temperature,
+    speakingRate: config.speakingRate,
+    ...(config.pronunciation ? { normalizeText: createNormalizer(config.pronunciation) } : {}),
+  };
+}
+
+function createBackupTts(
+  config: AgentConfig,
+  entry: TtsFallback,
+  voice: string,
+): { name: string; instance: tts.TTS; setVoice: (voice: string) => void } {
+  if (entry.provider === 'openai') {
+    const model = entry.model ?? DEFAULT_OPENAI_TTS_MODEL;
+    const toOpenAI = (v: string) => mappedVoice(entry, v) as openai.TTSVoices | undefined;
+    const initial = toOpenAI(voice);
+    const instance = new openai.TTS({ model, ...(initial ? { voice: initial } : {}) });
+    return {
+      name: `openai/${model}`,
+      // OpenAI TTS is not streaming; synthesize it sentence by sentence like Inworld
+      instance: new tts.StreamAdapter(instance, new tokenize.basic.SentenceTokenizer()),
+      setVoice: (v) => {
+        const next = toOpenAI(v);
+        if (next) instance.updateOptions({ voice: next });
+      },
+    };
+  }
+
+  const model = entry.model ?? config.ttsModel;
+  const instance = new InworldTTS({
+    ...inworldOptions(config),
+    voice: mappedVoice(entry, voice) ?? voice,
+    model,
+  });
+  return {
+    name: `inworld/${model}`,
+    instance,
+    setVoice: (v) => instance.updateOptions({ voice: mappedVoice(entry, v) ?? v }),
+  };
+}
+
+export function createTtsChain(config: AgentConfig, voice: string, usage: ProviderUsage): TtsChain {
+  const inworld = new InworldTTS({ ...inworldOptions(config), voice, model: config.ttsModel });
+  const primary = {
+    name: `inworld/${config.ttsModel}`,
+    instance: inworld as tts.TTS,
+    setVoice: (v: string) => inworld.updateOptions({ voice: v }),
+  };
+  const chain = [primary, ...(config.fallbacks?.tts ?? []).map((entry) => createBackupTts(config, entry, voice))];
+  for (const { name, instance } of chain) usage.track('tts', name, instance);
+
+  const setVoice = (v: string) => chain.forEach((c) => c.setVoice(v));
+  if (chain.length === 1) return { tts: inworld, setVoice };
+
+  const adapter = new tts.FallbackAdapter({ ttsInstances: chain.map((c) => c.instance) });
+  // The adapter forwards every provider error to the session, which ends the call after a
+  // few; it raises its own error when all voices fail, so provider errors are only logged
+  for (const { name, instance } of chain) {
+    instance.removeAllListeners('error');
+    instance.on('error', (ev) => console.warn(`[Fallback] TTS ${name} failed: ${ev.error.message}`));
+  }
+  return { tts: adapter, setVoice };
+}
+
+type NamedStt = { name: string; instance: stt.STT };
+
+/**
+ * Streams from the first healthy provider and moves to the next one when its stream fails.
+ * Non-streaming providers are segmented with the VAD, like the session does on its own.
+ */
+export class FallbackSTT extends stt.STT {
+  label = 'FallbackSTT';
+  readonly providers: NamedStt[];
+  readonly vad: VAD;
+  private readonly failedAt = new Map<NamedStt, number>();
+
+  constructor(providers: NamedStt[], vad: VAD) {
+    super({
+      streaming: true,
+      interimResults: providers.some((p) => p.instance.capabilities.interimResults),
+    });
+    this.providers = providers;
+    this.vad = vad;
+
+    for (const p of providers) {
+      p.instance.on('error', (ev) => console.warn(`[Fallback] STT ${p.name} failed: ${ev.error.message}`));
+      // Streamed usage reaches the session through this stream's own recognition events
+      p.instance.on('metrics_collected', (metrics) => {
+        if (!metrics.streamed) this.emit('metrics_collected', metrics);
+      });
+    }
+  }
+
+  /** Pin every provider to `language`, where supported. */
+  setLanguage(language: string): void {
+    for (const p of this.providers) setSttLanguage(p.instance, language);
+  }
+
+  /** Providers in order, with those that failed recently moved to the end. */
+  candidates(): NamedStt[] {
+    const now = Date.now();
+    const recent = (p: NamedStt) => now - (this.failedAt.get(p) ?? 0) < STT_RECOVERY_MS;
+    return [...this.providers.filter((p) => !recent(p)), ...this.providers.filter(recent)];
+  }
+
+  markFailed(provider: NamedStt): void {
+    this.failedAt.set(provider, Date.now());
+    console.warn(`[Fallback] STT ${provider.name} stopped transcribing, switching provider`);
+  }
+
+  /** Open a stream on `provider`; `onFailure` fires when a non-streaming request fails. */
+  openStream(provider: NamedStt, onFailure: () => void, connOptions?: APIConnectOptions): stt.SpeechStream {
+    const options = connOptions ? { connOptions } : undefined;
+    if (provider.instance.capabilities.streaming) return provider.instance.stream(options);
+    return new stt.StreamAdapter(new ReportingSTT(provider.instance, onFailure), this.vad).stream(options);
+  }
+
+  protected async _recognize(frame: Parameters<stt.STT['recognize']>[0], abortSignal?: AbortSignal) {
+    let lastError: unknown;
+    for (const p of this.candidates()) {
+      if (p.instance.capabilities.streaming) continue;
+      try {
+        return await p.instance.recognize(frame, abortSignal);
+      } catch (err) {
+        lastError = err;
+        this.markFailed(p);
+      }
+    }
+    throw lastError ?? new Error('No STT provider supports single recognition');
+  }
+
+  stream(options?: { connOptions?: APIConnectOptions }): stt.SpeechStream {
+    return new FallbackSpeechStream(this, options?.connOptions);
+  }
+
+  override async close(): Promise<void> {
+    await Promise.all(this.providers.map((p) => p.instance.close()));
+  }
+}
+
+// The SDK's StreamAdapter logs and skips failed recognitions; this reports them first
+class ReportingSTT extends stt.STT {
+  label: string;
+  private readonly inner: stt.STT;
+  private readonly onFailure: () => void;
+
+  constructor(inner: stt.STT, onFailure: () => void) {
+    super(inner.capabilities);
+    this.label = inner.label;
+    this.inner = inner;
+    this.onFailure = onFailure;
+  }
+
+  protected async _recognize(frame: Parameters<stt.STT['recognize']>[0], abortSignal?: AbortSignal) {
+    try {
+      return await this.inner.recognize(frame, abortSignal);
+    } catch (err) {
+      if (!abortSignal?.aborted) this.onFailure();
+      throw err;
+    }
+  }
+
+  stream(): stt.SpeechStream {
+    throw new Error(`${this.label} does not support streaming`);
+  }
+}
+
+class FallbackSpeechStream extends stt.SpeechStream {
+  label = 'FallbackSTT.SpeechStream';
+  private readonly fallback: FallbackSTT;
+  private readonly connOptions: APIConnectOptions | undefined;
+  private active: stt.SpeechStream | undefined;
+  private inputEnded = false;
+
+  constructor(fallback: FallbackSTT, connOptions?: APIConnectOptions) {
+    super(fallback, undefined, connOptions);
+    this.fallback = fallback;
+    this.connOptions = connOptions;
+  }
+
+  protected async run(): Promise<void> {
+    const forwarding = this.forwardInput();
+
+    for (const provider of this.fallback.candidates()) {
+      if (this.closed) return;
+      let failed = false;
+      const inner = this.fallback.openStream(
+        provider,
+        () => {
+          failed = true;
+          inner.close();
+        },
+        this.connOptions,
+      );
+      inner.startTimeOffset = this.startTimeOffset;
+      this.active = inner;
+      if (this.inputEnded) inner.endInput();
+
+      for await (const ev of inner) {
+        if (!this.queue.closed) this.queue.put(ev);
+      }
+      this.active = undefined;
+
+      // A stream that ends while audio is still coming in has failed
+      if (!failed && (this.inputEnded || this.closed)) {
+        await forwarding;
+        return;
+      }
+      inner.close();
+      this.fallback.markFailed(provider);
+    }
+
+    if (this.closed) return;
+    throw new APIConnectionError({
+      message: 'All STT providers failed',
+      options: { retryable: false },
+    });
+  }
+
+  // Frames go to whichever provider is active; those arriving mid-switch are dropped
+  private async forwardInput(): Promise<void> {
+    for await (const frame of this.input) {
+      try {
+        if (typeof frame === 'symbol') this.active?.flush();
+        else this.active?.pushFrame(frame);
+      } catch {
+        // The active stream has just closed; the next provider takes the following frames
+      }
+    }
+    this.inputEnded = true;
+    try {
+      this.active?.endInput();
+    } catch {
+      // Already closed
+    }
+  }
+
+  override close(): void {
+    this.active?.close();
+    super.close();
+  }
+}
+
+/**
+ * The agent's STT, followed by `fallbacks.stt`. Backups share the primary config's keywords
+ * and prompt unless they set their own; all of them follow the conversation language.
+ */
+export function createSttChain(
+  config: AgentConfig,
+  language: string | null,
+  vad: VAD | undefined,
+  usage: ProviderUsage,
+): stt.STT {
+  const primary = config.stt ?? {};
+  const shared: SttConfig = {
+    ...(primary.keywords ? { keywords: primary.keywords } : {}),
+    ...(primary.prompt ? { prompt: primary.prompt } : {}),
+  };
+  const configs = [primary, ...(config.fallbacks?.stt ?? []).map((entry) => ({ ...shared, ...entry }))];
+  const providers = configs.map((cfg) => ({ name: sttName(cfg), instance: createStt(cfg, language) as stt.STT }));
+  for (const { name, instance } of providers) usage.track('stt', name, instance);
+
+  if (providers.length === 1) return providers[0]!.instance;
+  if (!vad) {
+    console.warn('[Fallback] No VAD available, STT fallbacks disabled');
+    return providers[0]!.instance;
+  }
+  return new FallbackSTT(providers, vad);
+}
@@ -0,0 +1,89 @@
+/**
+ * Silence reprompts and inactivity hang-up
+ *
+ * While the agent is listening and the caller says nothing for `timeoutSeconds`, the agent
+ * speaks the next reprompt. After `maxAttempts` unanswered reprompts it says goodbye and
+ * hands over to `onHangUp`, which closes the session and leaves the room.
+ */
+import { voice } from '@livekit/agents';
+
+import type { InactivityConfig } from './config/types.js';
+import { speakLine } from './speech.js';
+
+const DEFAULT_REPROMPT = 'Are you still there?';
+
+export class InactivityMonitor {
+  private timer: NodeJS.Timeout | undefined;
+  private attempts = 0;
+  private agentState: voice.AgentState = 'initializing';
+  private userState: voice.UserState = 'listening';
+  private stopped = false;
+
+  /**
+   * @param getConfig - Settings of the agent currently in the call (they change on a handoff)
+   * @param onHangUp - Ends the call once the goodbye has played
+   */
+  constructor(
+    private readonly session: voice.AgentSession,
+    private readonly getConfig: () => InactivityConfig | undefined,
+    private readonly onHangUp: (reason: string) => Promise<void>,
+  ) {
+    session.on(voice.AgentSessionEventTypes.AgentStateChanged, (ev) => {
+      this.agentState = ev.newState;
+      this.update();
+    });
+    session.on(voice.AgentSessionEventTypes.UserStateChanged, (ev) => {
+      this.userState = ev.newState;
+      this.update();
+    });
+    // Anything the caller actually says earns them a fresh set of reprompts
+    session.on(voice.AgentSessionEventTypes.UserInputTranscribed, (ev) => {
+      if (ev.isFinal && ev.transcript.trim()) this.attempts = 0;
+    });
+    session.on(voice.AgentSessionEventTypes.Close, () => this.stop());
+  }
+
+  stop(): void {
+    this.stopped = true;
+    this.clear();
+  }
+
+  private clear(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  // Run the timer only while the agent waits on a caller who is not speaking
+  private update(): void {
+    const waiting = this.agentState === 'listening' && this.userState !== 'speaking';
+    const config = !this.stopped && waiting ? this.getConfig() : undefined;
+    if (!config) {
+      this.clear();
+      return;
+    }
+    this.timer ??= setTimeout(() => {
+      this.timer = undefined;
+      this.onTimeout(config).catch((err) => console.warn('[Inactivity] Reprompt failed:', err));
+    }, config.timeoutSeconds * 1000);
+  }
+
+  private async onTimeout(config: InactivityConfig): Promise<void> {
+    const reprompts = config.reprompts?.length ? config.reprompts : [DEFAULT_REPROMPT];
+    const maxAttempts = config.maxAttempts ?? config.reprompts?.length ?? 1;
+
+    if (this.attempts < maxAttempts) {
+      const reprompt = reprompts[this.attempts % reprompts.length]!;
+      this.attempts++;
+      console.log(`[Inactivity] Caller silent, reprompt ${this.attempts}/${maxAttempts}`);
+      speakLine(this.session, reprompt, { allowInterruptions: true });
+      return;
+    }
+
+    console.log('[Inactivity] Caller unresponsive, hanging up');
+    this.stop();
+    if (config.goodbye) {
+      await speakLine(this.session, config.goodbye, { allowInterruptions: false }).waitForPlayout();
+    }
+    await this.onHangUp('caller_inactive');
+  }
+}
@@ -5,9 +5,17 @@
  * API Documentation: https://docs.inworld.ai/docs/tts/tts
  */
 import { tts } from '@livekit/agents';
-import { AudioByteStream } from '@livekit/agents';
+import {
+  type APIConnectOptions,
+  APIConnectionError,
+  APIStatusError,
+  APITimeoutError,
+  AudioByteStream,
+} from '@livekit/agents';
 import WebSocket from 'ws';
 
+import { splitAtSentenceEnd } from './pronunciation.js';
+
 const DEFAULT_BASE_URL = 'https://api.inworld.ai/';
 const DEFAULT_WS_URL = 'wss://api.inworld.ai/';
 const DEFAULT_MODEL = 'inworld-tts-1';
@@ -18,6 +26,8 @@ const DEFAULT_BIT_RATE = 64000;
 const DEFAULT_TEMPERATURE = 1.1;
 const DEFAULT_SPEAKING_RATE = 1.0;
 const NUM_CHANNELS = 1;
+// Used when the caller passes no connection options
+const DEFAULT_TIMEOUT_MS = 10_000;
 
 export interface InworldTTSOptions {
   apiKey?: string;
@@ -30,6 +40,8 @@ export interface InworldTTSOptions {
   speakingRate?: number;
   baseUrl?: string;
   wsUrl?: string;
+  // Rewrites text before it is sent, e.g. the agent's pronunciation lexicon (see pronunciation.ts)
+  normalizeText?: (text: string) => string;
 }
 
 interface SynthesizeResult {
@@ -70,6 +82,7 @@ export class InworldTTS extends tts.TTS {
   private speakingRate: number;
   private baseUrl: string;
   private wsUrl: string;
+  private normalizeText: ((text: string) => string) | undefined;
   
   #closed = false;
   #streams = new Set<InworldSynthesizeStream>();
@@ -95,6 +108,7 @@ export class InworldTTS extends tts.TTS {
     this.speakingRate = opts.speakingRate ?? DEFAULT_SPEAKING_RATE;
     this.baseUrl = opts.baseUrl ?? DEFAULT_BASE_URL;
     this.wsUrl = opts.wsUrl ?? DEFAULT_WS_URL;
+    this.normalizeText = opts.normalizeText;
   }
 
   get label(): string {
@@ -104,15 +118,15 @@ export class InworldTTS extends tts.TTS {
   /**
    * Synthesize text to audio (non-streaming)
    */
-  synthesize(text: string): tts.ChunkedStream {
-    return new InworldChunkedStream(this, text);
+  synthesize(text: string, connOptions?: APIConnectOptions, abortSignal?: AbortSignal): tts.ChunkedStream {
+    return new InworldChunkedStream(this, text, connOptions, abortSignal);
   }
 
   /**
    * Create a streaming synthesis session
    */
-  stream(): InworldSynthesizeStream {
-    const stream = new InworldSynthesizeStream(this);
+  stream(options?: { connOptions?: APIConnectOptions }): InworldSynthesizeStream {
+    const stream = new InworldSynthesizeStream(this, options?.connOptions);
     this.#streams.add(stream);
     return stream;
   }
@@ -140,6 +154,7 @@ export class InworldTTS extends tts.TTS {
       speakingRate: this.speakingRate,
       baseUrl: this.baseUrl,
       wsUrl: this.wsUrl,
+      normalizeText: this.normalizeText,
     };
   }
 
@@ -154,15 +169,33 @@ export class InworldTTS extends tts.TTS {
   }
 }
 
+/**
+ * Errors are raised as LiveKit API errors, so retries and `tts.FallbackAdapter` treat them as
+ * provider failures: 5xx and 429 are retryable, other statuses are not.
+ */
+function inworldStatusError(message: string, statusCode: number): APIStatusError {
+  return new APIStatusError({
+    message: `Inworld TTS error: ${message}`,
+    options: { statusCode, retryable: statusCode >= 500 || statusCode === 429 },
+  });
+}
+
 /**
  * Non-streaming chunked synthesis
  */
 class InworldChunkedStream extends tts.ChunkedStream {
   private ttsInstance: InworldTTS;
-
-  constructor(ttsInstance: InworldTTS, text: string) {
-    super(text, ttsInstance);
+  private timeoutMs: number;
+
+  constructor(
+    ttsInstance: InworldTTS,
+    text: string,
+    connOptions?: APIConnectOptions,
+    abortSignal?: AbortSignal,
+  ) {
+    super(text, ttsInstance, connOptions, abortSignal);
     this.ttsInstance = ttsInstance;
+    this.timeoutMs = connOptions?.timeoutMs ?? DEFAULT_TIMEOUT_MS;
   }
 
   get label(): string {
@@ -174,7 +207,7 @@ class InworldChunkedStream extends tts.ChunkedStream {
     const url = new URL('/tts/v1/voice:stream', config.baseUrl);
 
     const body = {
-      text: this.inputText,
+      text: config.normalizeText ? config.normalizeText(this.inputText) : this.inputText,
       voiceId: config.voice,
       modelId: config.model,
       audioConfig: {
@@ -186,6 +219,10 @@ class InworldChunkedStream extends tts.ChunkedStream {
       temperature: config.temperature,
     };
 
+    // The timeout covers waiting for the response, not streaming a long utterance
+    const timeout = new AbortController();
+    const timer = setTimeout(() => timeout.abort(new DOMException('Timed out', 'TimeoutError')), this.timeoutMs);
+
     try {
       const response = await fetch(url.toString(), {
         method: 'POST',
@@ -194,11 +231,13 @@ class InworldChunkedStream extends tts.ChunkedStream {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify(body),
+        signal: AbortSignal.any([this.abortSignal, timeout.signal]),
       });
+      clearTimeout(timer);
 
       if (!response.ok) {
         const errorText = await response.text();
-        throw new Error(`Inworld TTS error: ${response.status} - ${errorText}`);
+        throw inworldStatusError(`${response.status} - ${errorText}`, response.status);
       }
 
       const reader = response.body?.getReader();
@@ -225,7 +264,7 @@ class InworldChunkedStream extends tts.ChunkedStream {
             const data: SynthesizeResult = JSON.parse(line);
 
             if (data.error) {
-              throw new Error(`Inworld API error: ${data.error.message}`);
+              throw inworldStatusError(data.error.message, data.error.code);
             }
 
             if (data.result?.audioContent) {
@@ -267,8 +306,15 @@ class InworldChunkedStream extends tts.ChunkedStream {
       // Signal end of stream - close the queue
       this.queue.close();
     } catch (error) {
+      clearTimeout(timer);
       console.error('Inworld TTS synthesis error:', error);
-      throw error;
+      if (error instanceof APIStatusError) throw error;
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        throw new APITimeoutError({ message: `Inworld TTS timed out after ${this.timeoutMs}ms` });
+      }
+      throw new APIConnectionError({
+        message: `Inworld TTS request failed: ${error instanceof Error ? error.message : String(error)}`,
+      });
     }
   }
 }
@@ -280,10 +326,10 @@ export class InworldSynthesizeStream extends tts.SynthesizeStream {
   private ttsInstance: InworldTTS;
   private ws: WebSocket | null = null;
   private contextId: string;
-  private inputEnded = false;
+  private armWatchdog: () => void = () => {};
 
-  constructor(ttsInstance: InworldTTS) {
-    super(ttsInstance);
+  constructor(ttsInstance: InworldTTS, connOptions?: APIConnectOptions) {
+    super(ttsInstance, connOptions);
     this.ttsInstance = ttsInstance;
     this.contextId = `ctx_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
   }
@@ -295,8 +341,28 @@ export class InworldSynthesizeStream extends tts.SynthesizeStream {
   protected async run(): Promise<void> {
     const config = this.ttsInstance.getConfig();
     const wsUrl = new URL('/tts/v1/voice:streamBidirectional', config.wsUrl);
+    const timeoutMs = this.connOptions.timeoutMs ?? DEFAULT_TIMEOUT_MS;
 
     return new Promise((resolve, reject) => {
+      let finished = false;
+      let watchdog: NodeJS.Timeout | undefined;
+      const fail = (error: Error) => {
+        if (finished) return;
+        finished = true;
+        clearTimeout(watchdog);
+        this.ws?.close();
+        reject(error);
+      };
+      // Fails the attempt when Inworld goes quiet: no connection, or no reply to sent text
+      this.armWatchdog = () => {
+        clearTimeout(watchdog);
+        watchdog = setTimeout(
+          () => fail(new APITimeoutError({ message: `Inworld TTS did not respond within ${timeoutMs}ms` })),
+          timeoutMs,
+        );
+      };
+      this.armWatchdog();
+
       this.ws = new WebSocket(wsUrl.toString(), {
         headers: {
           'Authorization': `Basic ${config.apiKey}`,
@@ -307,6 +373,9 @@ export class InworldSynthesizeStream extends tts.SynthesizeStream {
       let segmentStarted = false;
 
       this.ws.on('open', () => {
+        // Connected; the watchdog is re-armed once text is sent
+        clearTimeout(watchdog);
+
         // Create context
         const createMsg = {
           create: {
@@ -331,6 +400,7 @@ export class InworldSynthesizeStream extends tts.SynthesizeStream {
       });
 
       this.ws.on('message', (data: Buffer) => {
+        clearTimeout(watchdog);
         try {
           const msg = JSON.parse(data.toString());
           const result = msg.result;
@@ -340,7 +410,7 @@ export class InworldSynthesizeStream extends tts.SynthesizeStream {
           // Check for errors
           const status = result.status;
           if (status?.code && status.code !== 0) {
-            reject(new Error(`Inworld error: ${status.message || 'Unknown error'}`));
+            fail(inworldStatusError(status.message || 'Unknown error', status.code));
             return;
           }
 
@@ -362,6 +432,7 @@ export class InworldSynthesizeStream extends tts.SynthesizeStream {
             }
             // Signal end of stream - close the queue
             this.queue.close();
+            finished = true;
             resolve();
             return;
           }
@@ -394,36 +465,53 @@ export class InworldSynthesizeStream extends tts.SynthesizeStream {
 
       this.ws.on('error', (error) => {
         console.error('Inworld WebSocket error:', error);
-        reject(error);
+        fail(new APIConnectionError({ message: `Inworld WebSocket error: ${error.message}` }));
       });
 
       this.ws.on('close', () => {
-        if (!this.inputEnded) {
-          reject(new Error('Inworld WebSocket closed unexpectedly'));
+        if (!this.closed) {
+          fail(new APIConnectionError({ message: 'Inworld WebSocket closed unexpectedly' }));
         }
       });
     });
   }
-
   private async processInput(): Promise<void> {
+    const { normalizeText } = this.ttsInstance.getConfig();
+    // With a normalizer, text is held back until a sentence ends so that a price or phone
+    // number split across LLM tokens is rewritten as a whole
+    let pending = '';
+    const sendText = (text: string) => {
+      if (!text || !this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+      const sendMsg = {
+        send_text: { text: normalizeText ? normalizeText(text) : text },
+        contextId: this.contextId,
+      };
+      this.ws.send(JSON.stringify(sendMsg));
+      this.armWatchdog();
+    };
+
     try {
       for await (const data of this.input) {
         if (this.closed || !this.ws || this.ws.readyState !== WebSocket.OPEN) break;
 
         if (data === tts.SynthesizeStream.FLUSH_SENTINEL) {
+          sendText(pending);
+          pending = '';
           // Flush the context
           const flushMsg = { flush_context: {}, contextId: this.contextId };
           this.ws.send(JSON.stringify(flushMsg));
           continue;
         }
 
-        // Send text
-        const sendMsg = {
-          send_text: { text: data },
-          contextId: this.contextId,
-        };
-        this.ws.send(JSON.stringify(sendMsg));
+        if (!normalizeText) {
+          sendText(data);
+          continue;
+        }
+        const [ready, rest] = splitAtSentenceEnd(pending + data);
+        pending = rest;
+        sendText(ready);
       }
+      sendText(pending);
 
       // End input - flush and close context
       if (this.ws && this.ws.readyState === WebSocket.OPEN) {
@@ -432,9 +520,8 @@ export class InworldSynthesizeStream extends tts.SynthesizeStream {
 
         const closeMsg = { close_context: {}, contextId: this.contextId };
         this.ws.send(JSON.stringify(closeMsg));
+        this.armWatchdog();
       }
-
-      this.inputEnded = true;
     } catch (e) {
       console.error('Error processing input:', e);
     }
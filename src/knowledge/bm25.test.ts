@@ -0,0 +1,28 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+
+import { KnowledgeIndex, chunkText, tokenize } from './bm25.js';
+
+describe('Knowledge index', () => {
+  it('should tokenize with accent folding and plural stripping', () => {
+    assert.deepStrictEqual(tokenize('Crème brûlée menus, glass'), ['creme', 'brulee', 'menu', 'glass']);
+  });
+
+  it('should keep chunks within the size limit', () => {
+    const text = Array.from({ length: 50 }, (_, i) => `Sentence number ${i} is here.`).join(' ');
+    const chunks = chunkText(text, 200);
+    assert.ok(chunks.length > 1);
+    assert.ok(chunks.every((c) => c.length <= 200));
+  });
+
+  it('should rank the most relevant passage first', () => {
+    const index = KnowledgeIndex.fromDocuments([
+      { source: 'Menu', text: 'Our tiramisu is made fresh daily. Pizzas come from a wood-fired oven.' },
+      { source: 'Policies', text: 'Reservations can be cancelled up to two hours before the booking.' },
+      { source: 'Hours', text: 'We are open from noon until 11pm, closed on Mondays.' },
+    ]);
+    const [top] = index.search('how do I cancel my reservation', 2);
+    assert.strictEqual(top?.source, 'Policies');
+    assert.deepStrictEqual(index.search('parking garage', 3), []);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Local lexical knowledge index
+ *
+ * Resolved knowledge text is split into overlapping chunks and ranked with Okapi BM25,
+ * so the agent can retrieve relevant passages without an embedding service.
+ */
+
+export type KnowledgeDocument = {
+  // Shown to the model with each passage, e.g. a page title, URL or file name
+  source: string;
+  text: string;
+};
+
+export type KnowledgeChunk = KnowledgeDocument & { id: number };
+
+export type SearchHit = KnowledgeChunk & { score: number };
+
+export const DEFAULT_CHUNK_CHARS = 1_200;
+const CHUNK_OVERLAP_CHARS = 200;
+
+// Standard BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+/** Lowercased, accent-folded word tokens with a naive plural strip ("menus" -> "menu"). */
+export function tokenize(text: string): string[] {
+  const words =
+    text
+      .normalize('NFKD')
+      .replace(/\p{M}/gu, '')
+      .toLowerCase()
+      .match(/[\p{L}\p{N}]+/gu) ?? [];
+  return words.map((w) => (w.length > 3 && w.endsWith('s') && !w.endsWith('ss') ? w.slice(0, -1) : w));
+}
+
+/**
+ * Split text into chunks of at most `maxChars`, preferring paragraph and sentence
+ * boundaries, with a little overlap so facts spanning a boundary stay retrievable.
+ */
+export function chunkText(text: string, maxChars = DEFAULT_CHUNK_CHARS): string[] {
+  const sentences = text
+    .split(/\n\s*\n|(?<=[.!?])\s+/)
+    .map((s) => s.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const sentence of sentences) {
+    // A single oversized sentence (e.g. a table flattened to one line) is hard-split
+    for (let i = 0; i < sentence.length; i += maxChars) {
+      const piece = sentence.slice(i, i + maxChars);
+      if (current && current.length + piece.length + 1 > maxChars) {
+        chunks.push(current);
+        const overlap = current.slice(-CHUNK_OVERLAP_CHARS).replace(/^\S*\s/, '');
+        current = overlap.length + piece.length + 1 <= maxChars ? overlap : '';
+      }
+      current = current ? `${current} ${piece}` : piece;
+    }
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+type IndexedChunk = {
+  chunk: KnowledgeChunk;
+  termFreq: Map<string, number>;
+  length: number;
+};
+
+export class KnowledgeIndex {
+  private readonly chunks: IndexedChunk[] = [];
+  private readonly docFreq = new Map<string, number>();
+  private readonly avgLength: number;
+
+  constructor(chunks: KnowledgeChunk[]) {
+    for (const chunk of chunks) {
+      const tokens = tokenize(`${chunk.source} ${chunk.text}`);
+      const termFreq = new Map<string, number>();
+      for (const token of tokens) termFreq.set(token, (termFreq.get(token) ?? 0) + 1);
+      for (const term of termFreq.keys()) this.docFreq.set(term, (this.docFreq.get(term) ?? 0) + 1);
+      this.chunks.push({ chunk, termFreq, length: tokens.length });
+    }
+    const total = this.chunks.reduce((sum, c) => sum + c.length, 0);
+    this.avgLength = this.chunks.length ? total / this.chunks.length : 0;
+  }
+
+  static fromDocuments(documents: KnowledgeDocument[], chunkChars = DEFAULT_CHUNK_CHARS): KnowledgeIndex {
+    let id = 0;
+    const chunks = documents.flatMap((doc) =>
+      chunkText(doc.text, chunkChars).map((text) => ({ id: id++, source: doc.source, text })),
+    );
+    return new KnowledgeIndex(chunks);
+  }
+
+  get size(): number {
+    return this.chunks.length;
+  }
+
+  /** Sources in the order they were indexed, without duplicates. */
+  get sources(): string[] {
+    return [...new Set(this.chunks.map((c) => c.chunk.source))];
+  }
+
+  search(query: string, topK: number): SearchHit[] {
+    const terms = [...new Set(tokenize(query))];
+    const n = this.chunks.length;
+
+    return this.chunks
+      .map(({ chunk, termFreq, length }) => {
+        let score = 0;
+        for (const term of terms) {
+          const tf = termFreq.get(term);
+          if (!tf) continue;
+          const df = this.docFreq.get(term) ?? 0;
+          const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+          score += (idf * tf * (K1 + 1)) / (tf + K1 * (1 - B + (B * length) / this.avgLength));
+        }
+        return { ...chunk, score };
+      })
+      .filter((hit) => hit.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+}
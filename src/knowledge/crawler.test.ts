@@ -0,0 +1,53 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+
+import { isAllowedByRobots, matchesUrlPattern, parseRobots } from './crawler.js';
+import { extractLinks, extractMainContent } from './html.js';
+
+describe('Website crawler', () => {
+  it('should apply the most specific robots.txt rule', () => {
+    const { rules, sitemaps } = parseRobots(
+      [
+        'User-agent: *',
+        'Disallow: /private/',
+        'Allow: /private/menu',
+        'Disallow: /*.php$',
+        'Sitemap: https://example.com/sitemap.xml',
+      ].join('\n'),
+    );
+    assert.deepStrictEqual(sitemaps, ['https://example.com/sitemap.xml']);
+    assert.strictEqual(isAllowedByRobots(rules, new URL('https://example.com/private/a')), false);
+    assert.strictEqual(isAllowedByRobots(rules, new URL('https://example.com/private/menu')), true);
+    assert.strictEqual(isAllowedByRobots(rules, new URL('https://example.com/index.php')), false);
+    assert.strictEqual(isAllowedByRobots(rules, new URL('https://example.com/index.php?x=1')), true);
+  });
+
+  it('should prefer a group naming our user agent', () => {
+    const { rules } = parseRobots('User-agent: *\nDisallow: /\n\nUser-agent: OlyKnowledgeBot\nDisallow: /admin');
+    assert.strictEqual(isAllowedByRobots(rules, new URL('https://example.com/faq')), true);
+    assert.strictEqual(isAllowedByRobots(rules, new URL('https://example.com/admin')), false);
+  });
+
+  it('should match include/exclude patterns against the path or full URL', () => {
+    const url = new URL('https://example.com/menu/drinks?lang=en');
+    assert.ok(matchesUrlPattern('/menu/*', url));
+    assert.ok(!matchesUrlPattern('/blog/*', url));
+    assert.ok(matchesUrlPattern('https://example.com/*', url));
+  });
+
+  it('should keep main content and drop page chrome', () => {
+    const html =
+      '<html><head><title>FAQ</title><script>var x = 1;</script></head><body>' +
+      '<nav><a href="/">Home</a></nav><main><h1>FAQ</h1><p>We open at 9&nbsp;am.</p></main>' +
+      '<footer>© Example</footer></body></html>';
+    assert.strictEqual(extractMainContent(html), 'FAQ\n\nWe open at 9 am.');
+  });
+
+  it('should resolve links relative to the page without fragments', () => {
+    const links = extractLinks(
+      '<a href="/menu#top">Menu</a><a href="mailto:a@b.c">Mail</a><a href="faq">FAQ</a>',
+      'https://example.com/about/',
+    );
+    assert.deepStrictEqual(links, ['https://example.com/menu', 'https://example.com/about/faq']);
+  });
+});
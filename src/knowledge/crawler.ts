@@ -0,0 +1,218 @@
+/**
+ * Website crawler for `website` knowledge items
+ *
+ * Breadth-first from the item URL (plus sitemap.xml entries), limited by depth and page
+ * count, optionally to the same origin, honouring robots.txt and include/exclude patterns.
+ * Each page becomes one knowledge document with its readable main content.
+ */
+import type { CrawlConfig } from '../config/types.js';
+import type { KnowledgeDocument } from './bm25.js';
+import { extractLinks, extractMainContent, extractTitle } from './html.js';
+
+export const CRAWLER_USER_AGENT = 'OlyKnowledgeBot/1.0';
+
+const DEFAULT_MAX_DEPTH = 2;
+const DEFAULT_MAX_PAGES = 25;
+// Per request, body included
+export const FETCH_TIMEOUT_MS = 10_000;
+const CONCURRENCY = 4;
+const MAX_SITEMAPS = 10;
+
+// Links that are clearly not HTML pages
+const SKIP_EXTENSIONS =
+  /\.(pdf|jpe?g|png|gif|webp|svg|ico|css|js|json|xml|zip|gz|mp3|mp4|mov|avi|woff2?|ttf|docx?|xlsx?|pptx?)$/i;
+
+type RobotsRule = { allow: boolean; pattern: string };
+
+/** robots.txt rules for our user agent, or for "*" when there is no specific group. */
+export function parseRobots(txt: string, userAgent = CRAWLER_USER_AGENT): { rules: RobotsRule[]; sitemaps: string[] } {
+  const groups = new Map<string, RobotsRule[]>();
+  const sitemaps: string[] = [];
+  let agents: string[] = [];
+  let inRules = false;
+
+  for (const rawLine of txt.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const sep = line.indexOf(':');
+    if (sep === -1) continue;
+    const field = line.slice(0, sep).trim().toLowerCase();
+    const value = line.slice(sep + 1).trim();
+
+    if (field === 'sitemap') {
+      if (value) sitemaps.push(value);
+    } else if (field === 'user-agent') {
+      // Consecutive user-agent lines share one group
+      if (inRules) agents = [];
+      inRules = false;
+      agents.push(value.toLowerCase());
+    } else if (field === 'allow' || field === 'disallow') {
+      inRules = true;
+      // An empty Disallow allows everything
+      if (!value) continue;
+      for (const agent of agents) {
+        const rules = groups.get(agent) ?? [];
+        rules.push({ allow: field === 'allow', pattern: value });
+        groups.set(agent, rules);
+      }
+    }
+  }
+
+  const token = userAgent.split('/')[0]!.toLowerCase();
+  const match = [...groups.keys()].find((agent) => agent !== '*' && token.includes(agent));
+  return { rules: groups.get(match ?? '*') ?? [], sitemaps };
+}
+
+function robotsPatternToRegex(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+/** Longest matching rule wins; Allow wins a tie. */
+export function isAllowedByRobots(rules: RobotsRule[], url: URL): boolean {
+  const path = url.pathname + url.search;
+  let best: RobotsRule | undefined;
+  for (const rule of rules) {
+    if (!robotsPatternToRegex(rule.pattern).test(path)) continue;
+    if (
+      !best ||
+      rule.pattern.length > best.pattern.length ||
+      (rule.pattern.length === best.pattern.length && rule.allow)
+    ) {
+      best = rule;
+    }
+  }
+  return best?.allow ?? true;
+}
+
+/**
+ * `*` matches anything. Patterns containing "://" are matched against the full URL,
+ * others against the path and query, e.g. "/menu/*" or "*?print=*".
+ */
+export function matchesUrlPattern(pattern: string, url: URL): boolean {
+  const target = pattern.includes('://') ? url.href : url.pathname + url.search;
+  const regex = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${regex}$`).test(target);
+}
+
+async function fetchText(url: string): Promise<{ text: string; contentType: string; finalUrl: string } | null> {
+  try {
+    const res = await fetch(url, {
+      redirect: 'follow',
+      headers: { 'User-Agent': CRAWLER_USER_AGENT },
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+    if (!res.ok) return null;
+    return {
+      text: await res.text(),
+      contentType: res.headers.get('content-type') ?? '',
+      finalUrl: res.url || url,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/** Page URLs listed in a sitemap, following sitemap indexes. */
+async function readSitemaps(urls: string[]): Promise<string[]> {
+  const pages: string[] = [];
+  const queue = [...urls];
+  const seen = new Set<string>();
+
+  while (queue.length > 0 && seen.size < MAX_SITEMAPS) {
+    const url = queue.shift()!;
+    if (seen.has(url)) continue;
+    seen.add(url);
+
+    const res = await fetchText(url);
+    if (!res) continue;
+    const isIndex = /<sitemapindex\b/i.test(res.text);
+    for (const m of res.text.matchAll(/<loc>\s*([^<\s]+)\s*<\/loc>/gi)) {
+      const loc = m[1]!.replace(/&amp;/g, '&');
+      (isIndex ? queue : pages).push(loc);
+    }
+  }
+  return pages;
+}
+
+export async function crawlSite(startUrl: string, config: CrawlConfig = {}): Promise<KnowledgeDocument[]> {
+  const start = new URL(startUrl);
+  const maxDepth = config.maxDepth ?? DEFAULT_MAX_DEPTH;
+  const maxPages = config.maxPages ?? DEFAULT_MAX_PAGES;
+  const sameOrigin = config.sameOrigin ?? true;
+
+  // robots.txt is per origin; cache it for cross-origin crawls
+  const robotsByOrigin = new Map<string, Promise<ReturnType<typeof parseRobots>>>();
+  const robotsFor = (url: URL) => {
+    let robots = robotsByOrigin.get(url.origin);
+    if (!robots) {
+      robots = fetchText(`${url.origin}/robots.txt`).then((res) =>
+        parseRobots(res && !/text\/html/i.test(res.contentType) ? res.text : ''),
+      );
+      robotsByOrigin.set(url.origin, robots);
+    }
+    return robots;
+  };
+
+  const isCandidate = async (url: URL): Promise<boolean> => {
+    if (sameOrigin && url.origin !== start.origin) return false;
+    if (SKIP_EXTENSIONS.test(url.pathname)) return false;
+    // The start page is always crawled; patterns narrow what is followed from it
+    if (url.href !== start.href) {
+      if (config.include?.length && !config.include.some((p) => matchesUrlPattern(p, url))) return false;
+      if (config.exclude?.some((p) => matchesUrlPattern(p, url))) return false;
+    }
+    if (config.respectRobots === false) return true;
+    return isAllowedByRobots((await robotsFor(url)).rules, url);
+  };
+
+  const queued = new Set<string>([start.href]);
+  const queue: Array<{ url: string; depth: number }> = [{ url: start.href, depth: 0 }];
+  const enqueue = (href: string, depth: number) => {
+    if (depth > maxDepth || queued.has(href)) return;
+    queued.add(href);
+    queue.push({ url: href, depth });
+  };
+
+  if (config.sitemap ?? true) {
+    const robots = await robotsFor(start);
+    const sitemapUrls = robots.sitemaps.length ? robots.sitemaps : [`${start.origin}/sitemap.xml`];
+    for (const page of await readSitemaps(sitemapUrls)) enqueue(page, Math.min(1, maxDepth));
+  }
+
+  const documents: KnowledgeDocument[] = [];
+  const fetched = new Set<string>();
+
+  while (queue.length > 0 && documents.length < maxPages) {
+    const batch = queue.splice(0, Math.min(CONCURRENCY, maxPages - documents.length));
+    const pages = await Promise.all(
+      batch.map(async ({ url, depth }) => {
+        const target = new URL(url);
+        if (!(await isCandidate(target))) return null;
+        const res = await fetchText(url);
+        if (!res || !/html/i.test(res.contentType)) return null;
+        return { ...res, depth };
+      }),
+    );
+
+    for (const page of pages) {
+      if (!page || fetched.has(page.finalUrl) || documents.length >= maxPages) continue;
+      fetched.add(page.finalUrl);
+
+      const text = extractMainContent(page.text);
+      if (text) {
+        const title = extractTitle(page.text);
+        documents.push({ source: title ? `${title} (${page.finalUrl})` : page.finalUrl, text });
+      }
+      for (const link of extractLinks(page.text, page.finalUrl)) enqueue(link, page.depth + 1);
+    }
+  }
+
+  return documents;
+}
@@ -0,0 +1,130 @@
+/**
+ * Plain-text extraction for uploaded knowledge files
+ *
+ * PDF (unpdf), DOCX (mammoth), Markdown, CSV (one record per row) and plain text.
+ */
+import { extname } from 'node:path';
+
+import mammoth from 'mammoth';
+import { extractText as extractPdfText } from 'unpdf';
+
+/** The file could be read but not turned into text; the message is shown in the admin UI. */
+export class ExtractionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExtractionError';
+  }
+}
+
+export const SUPPORTED_EXTENSIONS = ['.pdf', '.docx', '.md', '.markdown', '.csv', '.txt'];
+
+function markdownToText(md: string): string {
+  return md
+    .replace(/```[\s\S]*?```/g, (block) => block.replace(/```\w*/g, ''))
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/^\s{0,3}#{1,6}\s+/gm, '')
+    .replace(/^\s{0,3}>\s?/gm, '')
+    .replace(/^\s*[-*+]\s+/gm, '- ')
+    .replace(/(\*\*|__|\*|_|~~|`)(.+?)\1/g, '$2')
+    .replace(/^\s*\|?(\s*:?-{3,}:?\s*\|)+\s*$/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/** Minimal RFC 4180 parser: quoted fields, escaped quotes, commas and newlines in quotes. */
+export function parseCsv(csv: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < csv.length; i++) {
+    const ch = csv[i];
+    if (quoted) {
+      if (ch === '"' && csv[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && csv[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((f) => f.trim()));
+}
+
+/** Each data row becomes "Header: value; Header: value" so it reads as a standalone record. */
+function csvToRecords(csv: string): string {
+  const [header, ...rows] = parseCsv(csv.replace(/^\uFEFF/, ''));
+  if (!header) return '';
+  return rows
+    .map((row) =>
+      row
+        .map((value, i) => [header[i]?.trim() || `Column ${i + 1}`, value.trim()] as const)
+        .filter(([, value]) => value)
+        .map(([name, value]) => `${name}: ${value}`)
+        .join('; '),
+    )
+    .filter(Boolean)
+    .join('\n');
+}
+
+export async function extractFileText(data: Buffer, filename: string): Promise<string> {
+  const ext = extname(filename).toLowerCase();
+  let text: string;
+
+  try {
+    switch (ext) {
+      case '.pdf':
+        text = (await extractPdfText(new Uint8Array(data), { mergePages: true })).text;
+        break;
+      case '.docx':
+        text = (await mammoth.extractRawText({ buffer: data })).value;
+        break;
+      case '.md':
+      case '.markdown':
+        text = markdownToText(data.toString('utf8'));
+        break;
+      case '.csv':
+        text = csvToRecords(data.toString('utf8'));
+        break;
+      case '.txt':
+        text = data.toString('utf8');
+        break;
+      default:
+        throw new ExtractionError(
+          `Unsupported file type "${ext || 'none'}" (supported: ${SUPPORTED_EXTENSIONS.join(', ')})`,
+        );
+    }
+  } catch (err) {
+    if (err instanceof ExtractionError) throw err;
+    throw new ExtractionError(`Could not read ${ext.slice(1).toUpperCase()} file: ${(err as Error).message}`);
+  }
+
+  text = text.replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+  if (!text) {
+    throw new ExtractionError(
+      ext === '.pdf' ? 'No text found; the PDF may be a scanned image' : 'The file contains no text',
+    );
+  }
+  return text;
+}
@@ -0,0 +1,44 @@
+/**
+ * Uploaded knowledge files
+ *
+ * The admin panel stores uploads in UPLOADS_DIR and their extracted text in the
+ * `knowledge_files` table, so agent workers (which do not share the uploads directory in
+ * Docker) read the text from MySQL instead of parsing the file on every call.
+ */
+import { readFile } from 'node:fs/promises';
+import { basename, dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { getKnowledgeFile } from '../db/knowledge-files.js';
+import type { MySqlPool } from '../db/mysql.js';
+import { extractFileText } from './extract.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+// src/knowledge or dist/knowledge -> project root
+export const UPLOADS_DIR = resolve(__dirname, '..', '..', 'uploads');
+
+/** Stored file name for a knowledge item value such as "/uploads/1700000000-abc123-menu.pdf". */
+export function uploadedFilename(value: string): string {
+  return basename(value);
+}
+
+/** Original name without the unique prefix the upload route adds. */
+export function displayFilename(value: string): string {
+  return uploadedFilename(value).replace(/^\d+-[a-z0-9]{6}-/, '');
+}
+
+/**
+ * Text of an uploaded file: the stored extraction when a pool is given, otherwise (file
+ * config source, local development) parsed from UPLOADS_DIR. Throws if neither works.
+ */
+export async function readKnowledgeFileText(value: string, pool?: MySqlPool): Promise<string> {
+  const filename = uploadedFilename(value);
+  if (pool) {
+    const stored = await getKnowledgeFile(pool, filename);
+    if (stored?.text) return stored.text;
+    if (stored?.error) throw new Error(stored.error);
+  }
+  const data = await readFile(resolve(UPLOADS_DIR, filename));
+  return extractFileText(data, filename);
+}
@@ -0,0 +1,114 @@
+/**
+ * HTML to readable text
+ *
+ * Regex-based on purpose (no DOM dependency): drops page chrome such as navigation,
+ * headers, footers and forms, prefers <main>/<article> content, and keeps block structure
+ * as line breaks.
+ */
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00a0',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  rsquo: '’',
+  lsquo: '‘',
+  rdquo: '”',
+  ldquo: '“',
+  euro: '€',
+  pound: '£',
+  copy: '©',
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, code: string) => {
+    if (code[0] === '#') {
+      const n = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(n) && n > 0 && n <= 0x10ffff ? String.fromCodePoint(n) : match;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? match;
+  });
+}
+
+// Elements whose content is never part of the readable page
+const DROP_ELEMENTS = ['script', 'style', 'noscript', 'template', 'svg', 'iframe', 'head'];
+// Page chrome around the main content
+const CHROME_ELEMENTS = ['nav', 'header', 'footer', 'aside', 'form', 'button', 'select'];
+const CHROME_ROLES = ['navigation', 'banner', 'contentinfo', 'search', 'dialog'];
+
+const BLOCK_TAGS =
+  'p|div|section|article|main|li|ul|ol|tr|table|h[1-6]|br|hr|dd|dt|dl|blockquote|pre|figcaption';
+
+function dropElements(html: string, tags: string[]): string {
+  let out = html;
+  for (const tag of tags) {
+    out = out.replace(new RegExp(`<${tag}\\b[^>]*>[\\s\\S]*?<\\/${tag}>`, 'gi'), ' ');
+  }
+  return out;
+}
+
+function dropRoles(html: string): string {
+  const roles = CHROME_ROLES.join('|');
+  return html.replace(
+    new RegExp(`<(\\w+)\\b[^>]*\\brole=["'](?:${roles})["'][^>]*>[\\s\\S]*?<\\/\\1>`, 'gi'),
+    ' ',
+  );
+}
+
+/** Inner HTML of the largest <main> or <article>, if the page has one. */
+function mainRegion(html: string): string | undefined {
+  const regions = [...html.matchAll(/<(main|article)\b[^>]*>([\s\S]*?)<\/\1>/gi)].map((m) => m[2] ?? '');
+  return regions.sort((a, b) => b.length - a.length)[0];
+}
+
+export function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(new RegExp(`<\\/?(?:${BLOCK_TAGS})\\b[^>]*>`, 'gi'), '\n')
+      .replace(/<[^>]+>/g, ' '),
+  )
+    .replace(/[ \t\f\v\u00a0]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export function extractTitle(html: string): string | undefined {
+  const title = /<title\b[^>]*>([\s\S]*?)<\/title>/i.exec(html)?.[1];
+  const text = title ? decodeEntities(title).replace(/\s+/g, ' ').trim() : '';
+  return text || undefined;
+}
+
+/** Readable main content of a page as plain text. */
+export function extractMainContent(html: string): string {
+  const cleaned = dropElements(html.replace(/<!--[\s\S]*?-->/g, ' '), DROP_ELEMENTS);
+  const main = mainRegion(cleaned);
+  const withoutChrome = dropRoles(dropElements(main ?? cleaned, CHROME_ELEMENTS));
+  const text = htmlToText(withoutChrome);
+  // Some sites put everything in <header>/<nav>-like wrappers; fall back to all text
+  return text || htmlToText(cleaned);
+}
+
+/** Absolute http(s) link targets, without fragments. */
+export function extractLinks(html: string, baseUrl: string): string[] {
+  const base = /<base\b[^>]*\bhref=["']([^"']+)["']/i.exec(html)?.[1];
+  const links = new Set<string>();
+  for (const m of html.matchAll(/<a\b[^>]*\bhref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/gi)) {
+    const href = decodeEntities(m[1] ?? m[2] ?? m[3] ?? '').trim();
+    if (!href || href.startsWith('#') || /^(mailto|tel|javascript|data):/i.test(href)) continue;
+    try {
+      const url = new URL(href, new URL(base ?? baseUrl, baseUrl));
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') continue;
+      url.hash = '';
+      links.add(url.href);
+    } catch {
+      // Ignore malformed hrefs
+    }
+  }
+  return [...links];
+}
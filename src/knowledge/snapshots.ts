@@ -0,0 +1,188 @@
+/**
+ * Website knowledge snapshots
+ *
+ * Website items are fetched (or crawled) by the admin panel when an agent is saved, on
+ * demand and on each item's refresh interval, and stored in `knowledge_snapshots`. Agents
+ * read the stored documents, so calls neither wait for the site nor lose knowledge when it
+ * is down: a failed refresh keeps the last good snapshot. An agent that finds no snapshot
+ * fetches one in the background for later calls.
+ */
+import { createHash } from 'node:crypto';
+
+import type { AgentConfig, KnowledgeItem } from '../config/types.js';
+import {
+  deleteUnusedKnowledgeSnapshots,
+  getKnowledgeSnapshot,
+  listKnowledgeSnapshots,
+  recordKnowledgeSnapshotError,
+  saveKnowledgeSnapshot,
+  type KnowledgeSnapshot,
+} from '../db/knowledge-snapshots.js';
+import type { MySqlPool } from '../db/mysql.js';
+import type { KnowledgeDocument } from './bm25.js';
+import { CRAWLER_USER_AGENT, FETCH_TIMEOUT_MS, crawlSite } from './crawler.js';
+import { extractMainContent } from './html.js';
+
+const SCHEDULER_TICK_MS = 5 * 60_000;
+
+export type SnapshotStatus = {
+  url: string;
+  pages: number;
+  chars: number;
+  contentHash: string | null;
+  fetchedAt: Date | null;
+  checkedAt: Date | null;
+  error: string | null;
+};
+
+/** Items with the same URL and crawl settings share a snapshot, whichever agent uses them. */
+export function snapshotKey(item: KnowledgeItem): string {
+  return createHash('sha256')
+    .update(JSON.stringify({ url: item.value, crawl: item.crawl ?? null }))
+    .digest('hex');
+}
+
+function contentHash(documents: KnowledgeDocument[]): string {
+  return createHash('sha256').update(JSON.stringify(documents)).digest('hex');
+}
+
+/** Live fetch (or crawl) of a website item. Throws when nothing readable comes back. */
+export async function fetchWebsiteDocuments(item: KnowledgeItem): Promise<KnowledgeDocument[]> {
+  if (!item.crawl) return fetchPageDocuments(item);
+
+  const pages = await crawlSite(item.value, item.crawl);
+  if (pages.length === 0) throw new Error('No readable pages found');
+  // Keep the item title visible on each page so search results stay attributable
+  return item.title ? pages.map((p) => ({ ...p, source: `${item.title}: ${p.source}` })) : pages;
+}
+
+/** Live fetch of the item's URL alone, even for a crawled item. */
+export async function fetchPageDocuments(item: KnowledgeItem): Promise<KnowledgeDocument[]> {
+  const res = await fetch(item.value, {
+    redirect: 'follow',
+    headers: { 'User-Agent': CRAWLER_USER_AGENT },
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+  });
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  const text = extractMainContent(await res.text());
+  if (!text) throw new Error('No readable content found');
+  return [{ source: item.title ?? item.value, text }];
+}
+
+function toStatus(url: string, snapshot: KnowledgeSnapshot | null | undefined): SnapshotStatus {
+  const documents = snapshot?.documents ?? [];
+  return {
+    url,
+    pages: documents.length,
+    chars: documents.reduce((sum, d) => sum + d.text.length, 0),
+    contentHash: snapshot?.contentHash ?? null,
+    fetchedAt: snapshot?.fetchedAt ?? null,
+    checkedAt: snapshot?.checkedAt ?? null,
+    error: snapshot?.error ?? null,
+  };
+}
+
+function websiteItems(config: AgentConfig): KnowledgeItem[] {
+  return (config.knowledge ?? []).filter((item) => item.type === 'website');
+}
+
+// Refreshes in progress by snapshot key, so concurrent requests for a site share one crawl
+const refreshing = new Map<string, Promise<SnapshotStatus>>();
+
+export function refreshKnowledgeSnapshot(pool: MySqlPool, item: KnowledgeItem): Promise<SnapshotStatus> {
+  const sourceKey = snapshotKey(item);
+  let refresh = refreshing.get(sourceKey);
+  if (!refresh) {
+    refresh = fetchSnapshot(pool, item, sourceKey).finally(() => refreshing.delete(sourceKey));
+    refreshing.set(sourceKey, refresh);
+  }
+  return refresh;
+}
+
+async function fetchSnapshot(pool: MySqlPool, item: KnowledgeItem, sourceKey: string): Promise<SnapshotStatus> {
+  try {
+    const documents = await fetchWebsiteDocuments(item);
+    const hash = contentHash(documents);
+    await saveKnowledgeSnapshot(pool, { sourceKey, url: item.value, documents, contentHash: hash });
+    console.log(`[Knowledge] Snapshot of ${item.value}: ${documents.length} documents, hash ${hash.slice(0, 12)}`);
+  } catch (err) {
+    const error = (err as Error).message || 'Fetch failed';
+    console.warn(`[Knowledge] Snapshot of ${item.value} failed: ${error}`);
+    await recordKnowledgeSnapshotError(pool, { sourceKey, url: item.value, error });
+  }
+  return toStatus(item.value, await getKnowledgeSnapshot(pool, sourceKey));
+}
+
+/**
+ * Snapshot the agent's website items. Only items without a snapshot are fetched unless
+ * `force` is set, so saving an unrelated setting does not re-crawl every site.
+ */
+export async function resolveAgentSnapshots(
+  pool: MySqlPool,
+  config: AgentConfig,
+  opts: { force?: boolean } = {},
+): Promise<SnapshotStatus[]> {
+  const items = websiteItems(config);
+  const existing = new Map(
+    (await listKnowledgeSnapshots(pool, items.map(snapshotKey))).map((s) => [s.sourceKey, s]),
+  );
+  const statuses: SnapshotStatus[] = [];
+  for (const item of items) {
+    const snapshot = existing.get(snapshotKey(item));
+    statuses.push(
+      opts.force || !snapshot?.documents ? await refreshKnowledgeSnapshot(pool, item) : toStatus(item.value, snapshot),
+    );
+  }
+  return statuses;
+}
+
+export async function getAgentSnapshotStatus(pool: MySqlPool, config: AgentConfig): Promise<SnapshotStatus[]> {
+  const items = websiteItems(config);
+  const snapshots = new Map(
+    (await listKnowledgeSnapshots(pool, items.map(snapshotKey))).map((s) => [s.sourceKey, s]),
+  );
+  return items.map((item) => toStatus(item.value, snapshots.get(snapshotKey(item))));
+}
+
+/** Refresh every snapshot whose interval has elapsed and drop ones no agent uses. */
+export async function refreshDueSnapshots(pool: MySqlPool, configs: AgentConfig[]): Promise<void> {
+  const items = configs.flatMap(websiteItems);
+  const keys = [...new Set(items.map(snapshotKey))];
+  const snapshots = new Map((await listKnowledgeSnapshots(pool, keys)).map((s) => [s.sourceKey, s]));
+
+  // Shared snapshots use the shortest interval any agent asks for
+  const due = new Map<string, KnowledgeItem>();
+  for (const item of items) {
+    if (!item.refreshIntervalHours) continue;
+    const key = snapshotKey(item);
+    // checkedAt rather than fetchedAt, so a site that is down is not retried every tick
+    const last = snapshots.get(key)?.checkedAt.getTime() ?? 0;
+    if (Date.now() - last >= item.refreshIntervalHours * 3_600_000) due.set(key, item);
+  }
+
+  for (const item of due.values()) await refreshKnowledgeSnapshot(pool, item);
+
+  const removed = await deleteUnusedKnowledgeSnapshots(pool, keys);
+  if (removed) console.log(`[Knowledge] Removed ${removed} unused snapshots`);
+}
+
+/** Periodically refresh due snapshots; `loadConfigs` is read on every tick. */
+export function startSnapshotScheduler(
+  pool: MySqlPool,
+  loadConfigs: () => Promise<AgentConfig[]>,
+): NodeJS.Timeout {
+  let running = false;
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await refreshDueSnapshots(pool, await loadConfigs());
+    } catch (err) {
+      console.error('[Knowledge] Scheduled snapshot refresh failed:', err);
+    } finally {
+      running = false;
+    }
+  };
+  void tick();
+  return setInterval(() => void tick(), SCHEDULER_TICK_MS);
+}
@@ -0,0 +1,110 @@
+/**
+ * Per-locale agent settings and caller language detection
+ *
+ * An agent's primary language is `stt.language` (default "en"); `locales` adds more, each with
+ * an optional greeting, voice and instruction addendum.
+ */
+import type { AgentConfig, LocaleConfig } from './config/types.js';
+
+export const DEFAULT_LANGUAGE = 'en';
+
+// Small stopword lists are enough to tell supported languages apart from a sentence or two.
+const words = (list: string): string[] => list.split(' ');
+
+const STOPWORDS: Record<string, string[]> = {
+  en: words(
+    'the and is are you i to of my what do have for can hello hi yes please thanks want ' +
+    'need with this that',
+  ),
+  es: words(
+    'el la los las y es de que en un una por para con mi hola quiero necesito gracias sí ' +
+    'si tiene tienen cómo como estoy buenos buenas usted',
+  ),
+  fr: words(
+    'le la les et est de des que un une pour avec je vous bonjour merci oui voudrais ' +
+    "suis mon ma pas ce c'est",
+  ),
+  de: words(
+    'der die das und ist ich sie nicht ein eine mit für hallo danke ja bitte möchte ' +
+    'haben mein wie guten',
+  ),
+  it: words(
+    'il lo la gli le e è di che un una per con io ciao grazie sì vorrei sono mio ' +
+    'buongiorno come',
+  ),
+  pt: words(
+    'o a os as e é de que um uma para com eu olá obrigado obrigada sim quero preciso meu ' +
+    'você não bom dia',
+  ),
+};
+
+/** "es-MX" -> "es" */
+export function baseLanguage(code: string): string {
+  return code.trim().toLowerCase().split(/[-_]/)[0] ?? code;
+}
+
+export function primaryLanguage(config: AgentConfig): string {
+  return baseLanguage(config.stt?.language ?? DEFAULT_LANGUAGE);
+}
+
+/** Languages the agent can hold a conversation in, primary first. */
+export function supportedLanguages(config: AgentConfig): string[] {
+  const langs = [primaryLanguage(config), ...Object.keys(config.locales ?? {}).map(baseLanguage)];
+  return [...new Set(langs)];
+}
+
+/** Map a requested or detected language onto one the agent supports, if any. */
+export function matchLanguage(config: AgentConfig, language: string | null | undefined): string | undefined {
+  if (!language) return undefined;
+  const base = baseLanguage(language);
+  return supportedLanguages(config).find((l) => l === base);
+}
+
+export function getLocale(config: AgentConfig, language: string): LocaleConfig {
+  const entry = Object.entries(config.locales ?? {}).find(([code]) => baseLanguage(code) === language);
+  return entry?.[1] ?? {};
+}
+
+export function localizedGreeting(config: AgentConfig, language: string): string {
+  return getLocale(config, language).greeting ?? config.greeting;
+}
+
+export function localizedVoice(config: AgentConfig, language: string): string {
+  return getLocale(config, language).voice ?? config.voice;
+}
+
+export function languageName(code: string): string {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
+
+/**
+ * Guess which of `candidates` a transcript is in by counting stopwords.
+ * Returns undefined when the text is too short or ambiguous to call.
+ */
+export function detectLanguage(text: string, candidates: string[]): string | undefined {
+  const words = text.toLowerCase().match(/[\p{L}']+/gu) ?? [];
+  if (words.length === 0) return undefined;
+
+  const scores = candidates
+    .map((lang) => {
+      const stopwords = new Set(STOPWORDS[lang] ?? []);
+      return { lang, score: words.filter((w) => stopwords.has(w)).length };
+    })
+    .sort((a, b) => b.score - a.score);
+
+  const [best, second] = scores;
+  if (!best || best.score === 0) return undefined;
+  if (second && second.score === best.score) return undefined;
+  return best.lang;
+}
+
+/** System prompt addendum pinning the conversation to `language`, plus its locale instructions. */
+export function languageInstructions(config: AgentConfig, language: string): string {
+  const name = languageName(language);
+  const addendum = getLocale(config, language).instructions;
+  return [`The caller speaks ${name}. Always respond in ${name}.`, addendum].filter(Boolean).join('\n');
+}
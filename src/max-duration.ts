@@ -0,0 +1,72 @@
+/**
+ * Maximum call duration
+ *
+ * At `warnAfterSeconds` the active agent is instructed to wrap up; at `maxSeconds` whatever it
+ * is saying is cut off, the closing line is spoken and `onHangUp` ends the call.
+ */
+import { voice } from '@livekit/agents';
+
+import type { MaxDurationConfig } from './config/types.js';
+import { speakLine } from './speech.js';
+
+const DEFAULT_WRAP_UP_INSTRUCTIONS =
+  'The call is close to its time limit. Briefly wrap up: summarize anything agreed, ' +
+  'answer only what is essential, and politely bring the conversation to a close.';
+
+export class CallDurationLimit {
+  private readonly timers: NodeJS.Timeout[] = [];
+
+  /**
+   * @param onHangUp - Ends the call once the closing line has played
+   */
+  constructor(
+    private readonly session: voice.AgentSession,
+    private readonly config: MaxDurationConfig,
+    private readonly onHangUp: (reason: string) => Promise<void>,
+  ) {
+    session.on(voice.AgentSessionEventTypes.Close, () => this.stop());
+  }
+
+  /** Start counting; call once the session has started. */
+  start(): void {
+    const { warnAfterSeconds, maxSeconds } = this.config;
+    if (warnAfterSeconds !== undefined) {
+      this.schedule(warnAfterSeconds, () => this.wrapUp());
+    }
+    this.schedule(maxSeconds, () => this.end());
+  }
+
+  stop(): void {
+    this.timers.forEach(clearTimeout);
+    this.timers.length = 0;
+  }
+
+  private schedule(seconds: number, run: () => Promise<void>): void {
+    this.timers.push(
+      setTimeout(() => {
+        run().catch((err) => console.warn('[Duration] Call limit handling failed:', err));
+      }, seconds * 1000),
+    );
+  }
+
+  private async wrapUp(): Promise<void> {
+    console.log(`[Duration] Call reached ${this.config.warnAfterSeconds}s, asking agent to wrap up`);
+    const agent = this.session.currentAgent;
+    const chatCtx = agent.chatCtx.copy();
+    chatCtx.addMessage({
+      role: 'system',
+      content: this.config.wrapUpInstructions ?? DEFAULT_WRAP_UP_INSTRUCTIONS,
+    });
+    await agent.updateChatCtx(chatCtx);
+  }
+
+  private async end(): Promise<void> {
+    console.log(`[Duration] Call reached the ${this.config.maxSeconds}s limit, ending it`);
+    this.stop();
+    await this.session.interrupt({ force: true }).await;
+    if (this.config.closingLine) {
+      await speakLine(this.session, this.config.closingLine, { allowInterruptions: false }).waitForPlayout();
+    }
+    await this.onHangUp('max_duration');
+  }
+}
@@ -0,0 +1,60 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+
+import { createNormalizer, splitAtSentenceEnd } from './pronunciation.js';
+
+describe('Pronunciation', () => {
+  const normalize = createNormalizer({ lexicon: { Oly: 'Oh-lee', 'SKU-4411': 'skew forty-four eleven' } });
+
+  it('should respell lexicon terms as whole words, ignoring case', () => {
+    assert.strictEqual(normalize('Welcome to OLY. Olympia is nice.'), 'Welcome to Oh-lee. Olympia is nice.');
+  });
+
+  it('should not apply rules inside lexicon terms', () => {
+    assert.strictEqual(normalize('SKU-4411 is in stock.'), 'skew forty-four eleven is in stock.');
+  });
+
+  it('should spell out order IDs', () => {
+    assert.strictEqual(normalize('Order AB12345 shipped.'), 'Order A B 1 2 3 4 5 shipped.');
+    assert.strictEqual(normalize('Ticket #10482.'), 'Ticket number 1 0 4 8 2.');
+    assert.strictEqual(normalize('Open 10AM in 4K.'), 'Open 10AM in 4K.');
+  });
+
+  it('should use a custom order ID pattern', () => {
+    const custom = createNormalizer({ orderIdPattern: 'ord_\\d+' });
+    assert.strictEqual(custom('See ord_123 and AB12345.'), 'See o r d, 1 2 3 and AB12345.');
+  });
+
+  it('should read phone numbers digit by digit', () => {
+    assert.strictEqual(normalize('Call (555) 123-4567.'), 'Call 5 5 5, 1 2 3, 4 5 6 7.');
+    assert.strictEqual(normalize('Call +1 555.123.4567'), 'Call plus 1, 5 5 5, 1 2 3, 4 5 6 7');
+  });
+
+  it('should read prices with their currency', () => {
+    assert.strictEqual(normalize('It costs $12.50.'), 'It costs 12 dollars and 50 cents.');
+    assert.strictEqual(normalize('Only €1, or $0.99, or £1,200.'), 'Only 1 euro, or 99 cents, or 1200 pounds.');
+  });
+
+  it('should read dates', () => {
+    assert.strictEqual(normalize('Due 2025-03-04.'), 'Due March 4th, 2025.');
+    assert.strictEqual(normalize('Due 03/04/25.'), 'Due March 4th, 2025.');
+    assert.strictEqual(createNormalizer({ dateOrder: 'dmy' })('Due 03/04/2025.'), 'Due April 3rd, 2025.');
+  });
+
+  it('should read URLs and email addresses', () => {
+    assert.strictEqual(
+      normalize('Visit https://www.oly.com/help-center?x=1 or email support@oly.com.'),
+      'Visit w w w dot Oh-lee dot com slash help dash center or email support at Oh-lee dot com.',
+    );
+  });
+
+  it('should only apply the listed rules', () => {
+    const pricesOnly = createNormalizer({ rules: ['prices'] });
+    assert.strictEqual(pricesOnly('AB12345 costs $5'), 'AB12345 costs 5 dollars');
+  });
+
+  it('should split streamed text at the last sentence break', () => {
+    assert.deepStrictEqual(splitAtSentenceEnd('It costs $12. Your order'), ['It costs $12.', ' Your order']);
+    assert.deepStrictEqual(splitAtSentenceEnd('It costs $12.'), ['', 'It costs $12.']);
+  });
+});
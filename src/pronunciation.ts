@@ -0,0 +1,188 @@
+/**
+ * Pronunciation lexicon and text normalization for TTS
+ *
+ * Rewrites text the voice tends to misread before it reaches Inworld: lexicon terms are
+ * replaced with their respelling, and the `rules` turn URLs, order IDs, phone numbers, prices
+ * and dates into words. Rules are written for English speech.
+ */
+import type { PronunciationConfig } from './config/types.js';
+
+type Rule = NonNullable<PronunciationConfig['rules']>[number];
+
+const ALL_RULES: Rule[] = ['urls', 'orderIds', 'phoneNumbers', 'prices', 'dates'];
+
+const EMAIL_PATTERN = /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/g;
+const URL_PATTERN =
+  /\b(?:https?:\/\/)?(?:www\.)?[a-z0-9-]+(?:\.[a-z0-9-]+)*\.(?:com|org|net|io|ai|co|app|dev|shop|us|uk|ca|de|fr|es)\b(?:\/[^\s]*)?/gi;
+// Codes mixing capital letters and digits, or "#" followed by digits
+const ORDER_ID_PATTERN = /#\d{3,}\b|\b(?=[A-Z0-9-]*\d)(?=[A-Z0-9-]*[A-Z])[A-Z0-9]+(?:-[A-Z0-9]+)*\b/g;
+// Shorter codes (4K, 10AM, MP3) are read fine as they are
+const MIN_ORDER_ID_CHARS = 5;
+const PHONE_PATTERN = /(?<![\w+])(?:\+(\d{1,3})[\s.-]?)?(\(\d{3}\)|\d{3})[\s.-]?(\d{3})[\s.-]?(\d{4})(?!\w)/g;
+const PRICE_PATTERN = /([$€£])\s?(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d{1,2}))?(?!\d)/g;
+const ISO_DATE_PATTERN = /\b(\d{4})-(\d{2})-(\d{2})\b/g;
+const NUMERIC_DATE_PATTERN = /\b(\d{1,2})\/(\d{1,2})\/(\d{4}|\d{2})\b/g;
+// Text up to the last sentence break, which is safe to normalize before the rest arrives
+const SENTENCE_END_PATTERN = /[.!?;:](?=\s)|\n/g;
+
+const CURRENCIES: Record<string, { one: string; many: string; cent: string; cents: string }> = {
+  $: { one: 'dollar', many: 'dollars', cent: 'cent', cents: 'cents' },
+  '€': { one: 'euro', many: 'euros', cent: 'cent', cents: 'cents' },
+  '£': { one: 'pound', many: 'pounds', cent: 'penny', cents: 'pence' },
+};
+
+const MONTHS = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+];
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function ordinal(day: number): string {
+  const suffix =
+    day % 100 >= 11 && day % 100 <= 13 ? 'th' : (['th', 'st', 'nd', 'rd'][day % 10] ?? 'th');
+  return `${day}${suffix}`;
+}
+
+function digits(text: string): string {
+  return text.replace(/\D/g, '').split('').join(' ');
+}
+
+// "AB-1234" -> "A B, 1 2 3 4"
+function spell(code: string): string {
+  return code
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part.split('').join(' '))
+    .join(', ');
+}
+
+function speakUrl(url: string): string {
+  const trailing = /[.,!?;:)]+$/.exec(url)?.[0] ?? '';
+  const spoken = url
+    .slice(0, url.length - trailing.length)
+    .replace(/^https?:\/\//i, '')
+    // Query strings and fragments are not worth reading out
+    .replace(/[?#].*$/, '')
+    .replace(/\/$/, '')
+    .replace(/^www\./i, 'w w w dot ')
+    .replace(/\./g, ' dot ')
+    .replace(/\//g, ' slash ')
+    .replace(/-/g, ' dash ')
+    .replace(/_/g, ' underscore ')
+    .replace(/@/g, ' at ');
+  return spoken.replace(/\s+/g, ' ').trim() + trailing;
+}
+
+function speakPrice(symbol: string, whole: string, fraction: string | undefined): string {
+  const currency = CURRENCIES[symbol]!;
+  const units = parseInt(whole.replace(/,/g, ''), 10);
+  const cents = fraction ? parseInt(fraction.padEnd(2, '0'), 10) : 0;
+  const parts: string[] = [];
+  if (units > 0 || cents === 0) parts.push(`${units} ${units === 1 ? currency.one : currency.many}`);
+  if (cents > 0) parts.push(`${cents} ${cents === 1 ? currency.cent : currency.cents}`);
+  return parts.join(' and ');
+}
+
+function speakDate(year: number, month: number, day: number): string | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return `${MONTHS[month - 1]} ${ordinal(day)}, ${year}`;
+}
+
+/**
+ * Build the text rewriter for an agent's `pronunciation` settings. Lexicon terms are swapped
+ * for placeholders while the rules run, so a term such as "SKU-4411" is not spelled out as an
+ * order ID.
+ */
+export function createNormalizer(config: PronunciationConfig): (text: string) => string {
+  const rules = new Set(config.rules ?? ALL_RULES);
+  const lexicon = new Map(
+    Object.entries(config.lexicon ?? {}).map(([term, say]) => [term.toLowerCase(), say]),
+  );
+  // Longest terms first, so "Oly Pro" wins over "Oly"
+  const terms = [...lexicon.keys()].sort((a, b) => b.length - a.length);
+  const lexiconPattern = terms.length
+    ? new RegExp(`(?<!\\w)(?:${terms.map(escapeRegex).join('|')})(?!\\w)`, 'giu')
+    : null;
+  const orderIdPattern = config.orderIdPattern ? new RegExp(config.orderIdPattern, 'g') : ORDER_ID_PATTERN;
+  const dmy = config.dateOrder === 'dmy';
+
+  return (text) => {
+    let result = text;
+
+    if (rules.has('urls')) {
+      result = result.replace(EMAIL_PATTERN, speakUrl).replace(URL_PATTERN, speakUrl);
+    }
+
+    const protectedTerms: string[] = [];
+    if (lexiconPattern) {
+      result = result.replace(lexiconPattern, (term) => {
+        protectedTerms.push(lexicon.get(term.toLowerCase()) ?? term);
+        return String.fromCharCode(0xe000 + protectedTerms.length - 1);
+      });
+    }
+
+    if (rules.has('orderIds')) {
+      result = result.replace(orderIdPattern, (code) => {
+        if (!config.orderIdPattern && code.replace(/[^A-Za-z0-9]/g, '').length < MIN_ORDER_ID_CHARS) {
+          return code;
+        }
+        return code.startsWith('#') ? `number ${spell(code)}` : spell(code);
+      });
+    }
+
+    if (rules.has('phoneNumbers')) {
+      result = result.replace(
+        PHONE_PATTERN,
+        (_match, country: string | undefined, area: string, exchange: string, line: string) =>
+          [country ? `plus ${country}` : null, digits(area), digits(exchange), digits(line)]
+            .filter(Boolean)
+            .join(', '),
+      );
+    }
+
+    if (rules.has('prices')) {
+      result = result.replace(PRICE_PATTERN, (_match, symbol: string, whole: string, fraction?: string) =>
+        speakPrice(symbol, whole, fraction),
+      );
+    }
+
+    if (rules.has('dates')) {
+      result = result
+        .replace(
+          ISO_DATE_PATTERN,
+          (match, y: string, m: string, d: string) => speakDate(+y, +m, +d) ?? match,
+        )
+        .replace(NUMERIC_DATE_PATTERN, (match, a: string, b: string, y: string) => {
+          const year = y.length === 2 ? 2000 + +y : +y;
+          return (dmy ? speakDate(year, +b, +a) : speakDate(year, +a, +b)) ?? match;
+        });
+    }
+
+    return protectedTerms.length
+      ? result.replace(/[\uE000-\uF8FF]/g, (ch) => protectedTerms[ch.charCodeAt(0) - 0xe000] ?? ch)
+      : result;
+  };
+}
+
+/**
+ * Split streamed text at its last sentence break: the first part can be normalized now, the
+ * rest waits for more text so a number or address is never rewritten half-received.
+ */
+export function splitAtSentenceEnd(text: string): [ready: string, rest: string] {
+  let end = -1;
+  for (const match of text.matchAll(SENTENCE_END_PATTERN)) end = match.index + match[0].length;
+  return end < 0 ? ['', text] : [text.slice(0, end), text.slice(end)];
+}
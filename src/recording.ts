@@ -0,0 +1,303 @@
+/**
+ * Local call recordings
+ *
+ * Agents with `recording.enabled` record the call with `CallRecorder`, started once the
+ * consent disclosure has played. It writes the caller's and the agent's room audio tracks to
+ * raw PCM files in a temp directory, padded with silence so both stay on the call's wall
+ * clock. When the call ends, `save` mixes the tracks to stereo (caller on the left channel,
+ * agent on the right), converts to RECORDING_FORMAT and stores the file in RECORDINGS_DIR
+ * under the call session's id. Nothing leaves the machine: the session itself runs with
+ * `record: false`, because the SDK recorder uploads to LiveKit Cloud.
+ * Files older than RECORDING_RETENTION_DAYS are deleted and unlinked from their sessions.
+ */
+import ffmpeg from '@ffmpeg-installer/ffmpeg';
+import type { JobContext } from '@livekit/agents';
+import {
+  AudioStream,
+  type LocalTrackPublication,
+  type RemoteParticipant,
+  type RemoteTrack,
+  type RemoteTrackPublication,
+  RoomEvent,
+  type Track,
+  TrackKind,
+} from '@livekit/rtc-node';
+import { spawn } from 'node:child_process';
+import { type WriteStream, createWriteStream } from 'node:fs';
+import { mkdir, mkdtemp, readdir, rm, stat, unlink } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { basename, dirname, join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { clearRecordingFiles } from './db/call-sessions.js';
+import type { MySqlPool } from './db/mysql.js';
+
+type Room = JobContext['room'];
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+const RETENTION_TICK_MS = 60 * 60_000;
+// Temp directories are named after the worker process, so leftovers of dead ones can be found
+const TEMP_DIR_PREFIX = 'oly-recording-';
+// Mono 16-bit PCM per track; plenty for speech and a third of the size of 48 kHz
+const SAMPLE_RATE = 24_000;
+// A track that falls further behind the wall clock than this (the agent between turns, a
+// muted caller) is padded with silence
+const MAX_LAG_MS = 100;
+
+// src or dist -> project root, unless RECORDINGS_DIR is set
+export const RECORDINGS_DIR = process.env.RECORDINGS_DIR
+  ? resolve(process.env.RECORDINGS_DIR)
+  : resolve(__dirname, '..', 'recordings');
+
+export type RecordingFormat = 'ogg' | 'wav';
+
+export function recordingFormat(): RecordingFormat {
+  return process.env.RECORDING_FORMAT?.toLowerCase() === 'wav' ? 'wav' : 'ogg';
+}
+
+/** Days to keep recordings; null keeps them until deleted in the admin. */
+export function retentionDays(): number | null {
+  const days = Number(process.env.RECORDING_RETENTION_DAYS);
+  return Number.isFinite(days) && days > 0 ? days : null;
+}
+
+/** Absolute path of a stored recording, or null for names that would leave RECORDINGS_DIR. */
+export function recordingPath(file: string): string | null {
+  return file === basename(file) && !file.startsWith('.') ? resolve(RECORDINGS_DIR, file) : null;
+}
+
+function runFfmpeg(args: string[]): Promise<void> {
+  return new Promise((resolvePromise, reject) => {
+    const proc = spawn(ffmpeg.path, ['-y', '-loglevel', 'error', ...args], { stdio: ['ignore', 'ignore', 'pipe'] });
+    let stderr = '';
+    proc.stderr.on('data', (chunk: Buffer) => (stderr += chunk.toString()));
+    proc.on('error', reject);
+    proc.on('close', (code) =>
+      code === 0 ? resolvePromise() : reject(new Error(`ffmpeg exited with ${code}: ${stderr.trim()}`)),
+    );
+  });
+}
+
+/** One side of the call: a track's audio as raw PCM, kept in step with the call's clock. */
+class TrackRecording {
+  private readonly file: WriteStream;
+  // Samples written so far, including padding
+  private written = 0;
+  private stream: AudioStream | undefined;
+
+  constructor(
+    readonly path: string,
+    private readonly startedAt: number,
+  ) {
+    this.file = createWriteStream(path);
+  }
+
+  /** Record `track` from now on, replacing the previous track (e.g. a republished microphone). */
+  record(track: Track): void {
+    void this.stream?.cancel().catch(() => {});
+    const stream = new AudioStream(track, { sampleRate: SAMPLE_RATE, numChannels: 1 });
+    this.stream = stream;
+    void (async () => {
+      for await (const frame of stream) {
+        if (this.stream !== stream) break;
+        this.padTo(Date.now() - (frame.samplesPerChannel / SAMPLE_RATE) * 1000, MAX_LAG_MS);
+        this.write(frame.data);
+      }
+    })().catch((err) => console.warn('[Recording] Track recording failed:', err));
+  }
+
+  private padTo(wallTime: number, toleranceMs: number): void {
+    const due = Math.floor(((wallTime - this.startedAt) / 1000) * SAMPLE_RATE);
+    if (due - this.written > (toleranceMs / 1000) * SAMPLE_RATE) {
+      this.write(new Int16Array(due - this.written));
+    }
+  }
+
+  private write(samples: Int16Array): void {
+    this.file.write(Buffer.from(samples.buffer, samples.byteOffset, samples.byteLength));
+    this.written += samples.length;
+  }
+
+  /** Stop recording and pad up to `endedAt`, so both sides end together. */
+  async close(endedAt: number): Promise<void> {
+    const stream = this.stream;
+    this.stream = undefined;
+    await stream?.cancel().catch(() => {});
+    this.padTo(endedAt, 0);
+    await new Promise<void>((resolvePromise, reject) =>
+      this.file.end((err?: Error | null) => (err ? reject(err) : resolvePromise())),
+    );
+  }
+}
+
+/**
+ * Records a voice call from the room: the caller's audio tracks and the audio the agent
+ * publishes, from the moment it starts.
+ */
+export class CallRecorder {
+  private readonly caller: TrackRecording;
+  private readonly agent: TrackRecording;
+  private endedAt: number | undefined;
+
+  private readonly onTrackSubscribed = (
+    track: RemoteTrack,
+    _publication: RemoteTrackPublication,
+    participant: RemoteParticipant,
+  ) => {
+    if (participant.identity === this.callerIdentity && track.kind === TrackKind.KIND_AUDIO) {
+      this.caller.record(track);
+    }
+  };
+
+  private readonly onLocalTrackPublished = (publication: LocalTrackPublication) => {
+    if (publication.track && publication.kind === TrackKind.KIND_AUDIO) {
+      this.agent.record(publication.track);
+    }
+  };
+
+  private constructor(
+    private readonly room: Room,
+    private readonly callerIdentity: string,
+    private readonly dir: string,
+    /** Wall time the recording starts at */
+    readonly startedAt: number,
+  ) {
+    this.caller = new TrackRecording(join(dir, 'caller.pcm'), startedAt);
+    this.agent = new TrackRecording(join(dir, 'agent.pcm'), startedAt);
+  }
+
+  static async start(room: Room, caller: RemoteParticipant): Promise<CallRecorder> {
+    const dir = await mkdtemp(join(tmpdir(), `${TEMP_DIR_PREFIX}${process.pid}-`));
+    const recorder = new CallRecorder(room, caller.identity, dir, Date.now());
+
+    room.on(RoomEvent.TrackSubscribed, recorder.onTrackSubscribed);
+    room.on(RoomEvent.LocalTrackPublished, recorder.onLocalTrackPublished);
+    for (const publication of caller.trackPublications.values()) {
+      if (publication.track) recorder.onTrackSubscribed(publication.track, publication, caller);
+    }
+    for (const publication of room.localParticipant?.trackPublications.values() ?? []) {
+      recorder.onLocalTrackPublished(publication);
+    }
+    return recorder;
+  }
+
+  /** Stop recording; the call's audio ends here. Safe to call more than once. */
+  async stop(): Promise<void> {
+    if (this.endedAt !== undefined) return;
+    this.endedAt = Date.now();
+    this.room.off(RoomEvent.TrackSubscribed, this.onTrackSubscribed);
+    this.room.off(RoomEvent.LocalTrackPublished, this.onLocalTrackPublished);
+    await Promise.all([this.caller.close(this.endedAt), this.agent.close(this.endedAt)]);
+  }
+
+  /** Store the call as `<name>.<format>`. Returns the stored file name; the temp files are removed. */
+  async save(name: string): Promise<string> {
+    await this.stop();
+    const format = recordingFormat();
+    const file = `${name}.${format}`;
+    const pcm = ['-f', 's16le', '-ar', String(SAMPLE_RATE), '-ac', '1', '-i'];
+    try {
+      await mkdir(RECORDINGS_DIR, { recursive: true });
+      await runFfmpeg([
+        ...pcm,
+        this.caller.path,
+        ...pcm,
+        this.agent.path,
+        '-filter_complex',
+        '[0:a][1:a]amerge=inputs=2[a]',
+        '-map',
+        '[a]',
+        ...(format === 'wav' ? ['-c:a', 'pcm_s16le'] : ['-c:a', 'libopus']),
+        resolve(RECORDINGS_DIR, file),
+      ]);
+    } finally {
+      await this.discard();
+    }
+    return file;
+  }
+
+  /** Remove the recording without storing it. */
+  async discard(): Promise<void> {
+    await this.stop();
+    await rm(this.dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Delete recordings older than the retention period. With `pool`, their sessions' `recordingFile`
+ * is cleared first, so no session points at a deleted file. Returns the names removed.
+ */
+export async function pruneRecordings(pool: MySqlPool | null, days = retentionDays()): Promise<string[]> {
+  if (days === null) return [];
+  const cutoff = Date.now() - days * 86_400_000;
+
+  let files: string[];
+  try {
+    files = await readdir(RECORDINGS_DIR);
+  } catch {
+    return [];
+  }
+  const expired: string[] = [];
+  for (const file of files) {
+    try {
+      const info = await stat(resolve(RECORDINGS_DIR, file));
+      if (info.isFile() && info.mtimeMs < cutoff) expired.push(file);
+    } catch (err) {
+      console.warn(`[Recording] Failed to check ${file}:`, err);
+    }
+  }
+  if (!expired.length) return [];
+  if (pool) await clearRecordingFiles(pool, expired);
+
+  const removed: string[] = [];
+  for (const file of expired) {
+    try {
+      await unlink(resolve(RECORDINGS_DIR, file));
+      removed.push(file);
+    } catch (err) {
+      console.warn(`[Recording] Failed to prune ${file}:`, err);
+    }
+  }
+  if (removed.length) console.log(`[Recording] Removed ${removed.length} recordings older than ${days} days`);
+  return removed;
+}
+
+/** Apply the retention period now and every hour. */
+export function startRecordingRetention(pool: MySqlPool): NodeJS.Timeout {
+  const tick = () =>
+    void pruneRecordings(pool).catch((err) => console.error('[Recording] Retention cleanup failed:', err));
+  tick();
+  return setInterval(tick, RETENTION_TICK_MS);
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    // EPERM: alive, but owned by another user
+    return (err as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/** Remove temp directories of calls whose worker process died before storing the recording. */
+export async function removeStaleRecordingDirs(): Promise<void> {
+  const pattern = new RegExp(`^${TEMP_DIR_PREFIX}(\\d+)-`);
+  let entries: string[];
+  try {
+    entries = await readdir(tmpdir());
+  } catch {
+    return;
+  }
+  for (const entry of entries) {
+    const pid = pattern.exec(entry)?.[1];
+    if (!pid || isProcessAlive(Number(pid))) continue;
+    try {
+      await rm(join(tmpdir(), entry), { recursive: true, force: true });
+      console.log(`[Recording] Removed leftover temp recording ${entry}`);
+    } catch (err) {
+      console.warn(`[Recording] Failed to remove ${entry}:`, err);
+    }
+  }
+}
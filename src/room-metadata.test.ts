@@ -0,0 +1,54 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+
+import type { JobContext } from '@livekit/agents';
+
+import { parseRoomMetadata, routeRoom, waitForCaller } from './room-metadata.js';
+
+describe('Room metadata', () => {
+  it('should validate known fields and keep the rest for placeholders', () => {
+    assert.deepStrictEqual(parseRoomMetadata('{"agentType":" restaurant ","orderId":"A-17"}'), {
+      metadata: { agentType: 'restaurant', orderId: 'A-17' },
+    });
+    assert.deepStrictEqual(parseRoomMetadata(''), { metadata: {} });
+    assert.deepStrictEqual(parseRoomMetadata('{"agentType":'), { error: 'Room metadata is not valid JSON' });
+    assert.deepStrictEqual(parseRoomMetadata('{"mode":"video","caller":{"tier":["gold"]}}'), {
+      error:
+        "Invalid room metadata (mode: Invalid enum value. Expected 'voice' | 'text', received 'video'; " +
+        'caller.tier: Invalid input)',
+    });
+  });
+
+  it('should route to the requested agent', async () => {
+    const route = await routeRoom('{"agentType":"restaurant"}', 'reject');
+    assert.strictEqual(route.config ? route.agentType : undefined, 'restaurant');
+    assert.strictEqual(route.diagnostic, undefined);
+  });
+
+  it('should apply the policy to unknown agent types', async () => {
+    const rejected = await routeRoom('{"agentType":"restaurnt"}', 'reject');
+    assert.strictEqual(rejected.config, undefined);
+    assert.deepStrictEqual(rejected.diagnostic, {
+      level: 'error',
+      code: 'unknown_agent_type',
+      message: "Agent type 'restaurnt' is not configured",
+      action: 'reject',
+      agentType: 'restaurnt',
+    });
+
+    const fallback = await routeRoom('{"agentType":"restaurnt"}', 'fallback');
+    assert.strictEqual(fallback.config ? fallback.agentType : undefined, 'default');
+    assert.strictEqual(fallback.diagnostic?.level, 'warning');
+
+    const invalid = await routeRoom('not json', 'message');
+    assert.deepStrictEqual(
+      [invalid.config, invalid.diagnostic?.code, invalid.diagnostic?.action],
+      [undefined, 'invalid_metadata', 'message'],
+    );
+  });
+
+  it('should stop waiting for a caller who never joins', async () => {
+    const emptyRoom = { waitForParticipant: () => new Promise(() => {}) } as unknown as JobContext;
+    assert.strictEqual(await waitForCaller(emptyRoom, 10), null);
+  });
+});
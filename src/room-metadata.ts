@@ -0,0 +1,201 @@
+/**
+ * Room metadata and agent routing
+ *
+ * The token issuer sets the room metadata: which agent answers (`agentType`), the caller's
+ * language, text or voice `mode`, caller context and config `overrides`. Other fields are kept as data for
+ * {{metadata.*}} placeholders. Metadata that does not parse, or names an agent type that is not
+ * configured, is handled by the deployment's UNKNOWN_AGENT_POLICY instead of silently routing
+ * the caller to the `default` agent:
+ *
+ * - `fallback` (default): the `default` agent answers, with a warning diagnostic
+ * - `reject`: the agent does not join the room
+ * - `message`: the agent says UNKNOWN_AGENT_MESSAGE in the `default` agent's voice, then leaves
+ *
+ * Unless the call is rejected, every routing problem is also sent to the room as a diagnostic
+ * on the `oly.diagnostics` text stream topic, so the frontend can show what went wrong.
+ */
+import { type JobContext, voice } from '@livekit/agents';
+import type { RemoteParticipant } from '@livekit/rtc-node';
+import { z } from 'zod';
+
+import { findAgentConfig } from './config/index.js';
+import type { AgentConfig } from './config/types.js';
+import { ProviderUsage, createTtsChain } from './fallback.js';
+import { TEXT_INPUT_OPTIONS, TEXT_OUTPUT_OPTIONS, conversationMode } from './text-chat.js';
+
+type Room = JobContext['room'];
+
+export const RoomMetadataSchema = z
+  .object({
+    agentType: z.string().trim().min(1).optional(),
+    // Conversation language, e.g. "es" or "es-MX"; `locale` is accepted as an alias
+    language: z.string().trim().min(2).optional(),
+    locale: z.string().trim().min(2).optional(),
+    mode: z.enum(['voice', 'text']).optional(),
+    // Caller context from the token issuer, e.g. CRM fields, for {{metadata.caller.*}}
+    caller: z.record(z.union([z.string(), z.number(), z.boolean()])).optional(),
+    // Per-call config changes, limited by the agent's `roomOverrides` (see room-overrides.ts)
+    overrides: z.record(z.unknown()).optional(),
+  })
+  .passthrough();
+
+export type RoomMetadata = z.infer<typeof RoomMetadataSchema>;
+
+export const UNKNOWN_AGENT_POLICIES = ['fallback', 'reject', 'message'] as const;
+export type UnknownAgentPolicy = (typeof UNKNOWN_AGENT_POLICIES)[number];
+
+export const DIAGNOSTICS_TOPIC = 'oly.diagnostics';
+
+export type RoomDiagnostic = {
+  level: 'warning' | 'error';
+  code: 'invalid_metadata' | 'unknown_agent_type' | 'rejected_override';
+  message: string;
+  // What the agent did about it; rejected overrides are ignored and the call goes on
+  action: UnknownAgentPolicy | 'ignore';
+  agentType?: string;
+};
+
+export type AgentRoute =
+  | {
+      agentType: string;
+      config: AgentConfig;
+      metadata: RoomMetadata;
+      // Set when the caller was routed to the `default` agent
+      diagnostic?: RoomDiagnostic;
+    }
+  | { config?: undefined; metadata: RoomMetadata; diagnostic: RoomDiagnostic };
+
+export function unknownAgentPolicy(): UnknownAgentPolicy {
+  const raw = process.env.UNKNOWN_AGENT_POLICY ?? 'fallback';
+  if ((UNKNOWN_AGENT_POLICIES as readonly string[]).includes(raw)) return raw as UnknownAgentPolicy;
+  console.warn(`[Agent] Unknown UNKNOWN_AGENT_POLICY '${raw}', using 'fallback'`);
+  return 'fallback';
+}
+
+/** Parse the room metadata; empty metadata is valid and routes to the `default` agent. */
+export function parseRoomMetadata(raw: string | undefined): { metadata: RoomMetadata } | { error: string } {
+  if (!raw?.trim()) return { metadata: {} };
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    return { error: 'Room metadata is not valid JSON' };
+  }
+  const parsed = RoomMetadataSchema.safeParse(json);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) => `${i.path.join('.') || 'metadata'}: ${i.message}`);
+    return { error: `Invalid room metadata (${issues.join('; ')})` };
+  }
+  return { metadata: parsed.data };
+}
+
+/** The agent that should answer a room, or the diagnostic explaining why none will. */
+export async function routeRoom(
+  raw: string | undefined,
+  policy = unknownAgentPolicy(),
+): Promise<AgentRoute> {
+  const result = parseRoomMetadata(raw);
+  if ('metadata' in result) {
+    const agentType = result.metadata.agentType ?? 'default';
+    const config = await findAgentConfig(agentType);
+    if (config) return { agentType, config, metadata: result.metadata };
+  }
+
+  const metadata = 'metadata' in result ? result.metadata : {};
+  const diagnostic: RoomDiagnostic =
+    'error' in result
+      ? { level: 'error', code: 'invalid_metadata', message: result.error, action: policy }
+      : {
+          level: 'error',
+          code: 'unknown_agent_type',
+          message: `Agent type '${metadata.agentType ?? 'default'}' is not configured`,
+          action: policy,
+          agentType: metadata.agentType ?? 'default',
+        };
+  if (policy !== 'fallback') return { metadata, diagnostic };
+
+  const fallback = await findAgentConfig('default');
+  if (!fallback) {
+    return {
+      metadata,
+      diagnostic: {
+        ...diagnostic,
+        action: 'reject',
+        message: `${diagnostic.message}, and there is no default agent`,
+      },
+    };
+  }
+  return {
+    agentType: 'default',
+    config: fallback,
+    metadata,
+    diagnostic: {
+      ...diagnostic,
+      level: 'warning',
+      message: `${diagnostic.message}; the default agent answers instead`,
+    },
+  };
+}
+
+// How long a job that cannot be answered waits for someone to tell before it leaves
+const UNANSWERED_WAIT_MS = 30_000;
+
+/** The first participant to join, or null when nobody joins within `timeoutMs`. */
+export async function waitForCaller(
+  ctx: JobContext,
+  timeoutMs = UNANSWERED_WAIT_MS,
+): Promise<RemoteParticipant | null> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<null>((resolvePromise) => {
+    timer = setTimeout(() => resolvePromise(null), timeoutMs);
+  });
+  try {
+    return await Promise.race([ctx.waitForParticipant(), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/** Log a routing problem and send it to everyone in the room. Never throws. */
+export async function sendDiagnostic(room: Room, diagnostic: RoomDiagnostic): Promise<void> {
+  const log = diagnostic.level === 'error' ? console.error : console.warn;
+  log(`[Agent] ${diagnostic.message} (${diagnostic.code}, ${diagnostic.action})`);
+  try {
+    await room.localParticipant?.sendText(JSON.stringify(diagnostic), { topic: DIAGNOSTICS_TOPIC });
+  } catch (err) {
+    console.warn('[Agent] Failed to send diagnostic to the room:', err);
+  }
+}
+
+const DEFAULT_UNKNOWN_AGENT_MESSAGE =
+  'Sorry, this line is not set up correctly right now. Please try again later.';
+
+/**
+ * Tell the caller the call cannot be answered, in the `default` agent's voice (or as a chat
+ * message in text mode). Resolves once the message has been delivered.
+ */
+export async function sayUnavailable(room: Room, metadata: RoomMetadata): Promise<void> {
+  const message = process.env.UNKNOWN_AGENT_MESSAGE || DEFAULT_UNKNOWN_AGENT_MESSAGE;
+  const text = conversationMode(metadata) === 'text';
+  const config = text ? undefined : await findAgentConfig('default');
+  if (!text && !config) {
+    console.warn('[Agent] No default agent to voice the unavailable message');
+    return;
+  }
+
+  const session = new voice.AgentSession(
+    config ? { tts: createTtsChain(config, config.voice, new ProviderUsage()).tts } : {},
+  );
+  await session.start({
+    agent: new voice.Agent({ instructions: '' }),
+    room,
+    // Nothing to listen to: the agent leaves once the message is delivered
+    inputOptions: TEXT_INPUT_OPTIONS,
+    ...(text ? { outputOptions: TEXT_OUTPUT_OPTIONS } : {}),
+  });
+  try {
+    await session.say(message, { allowInterruptions: false }).waitForPlayout();
+  } finally {
+    await session.close();
+  }
+}
@@ -0,0 +1,74 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+
+import type { AgentConfig } from './config/types.js';
+import { localizedVoice } from './language.js';
+import { applyRoomOverrides } from './room-overrides.js';
+
+const config: AgentConfig = {
+  agentName: 'Sofia',
+  instructions: 'Book tables for callers.',
+  greeting: 'Hi, how many people should I seat?',
+  voice: 'Olivia',
+  model: 'gpt-4o-mini',
+  ttsModel: 'inworld-tts-1',
+  temperature: 0.8,
+  speakingRate: 1,
+  roomOverrides: {
+    voice: { allowed: ['Olivia', 'Ashley'] },
+    speakingRate: { min: 0.9, max: 1.2 },
+    instructions: {},
+    greeting: { maxLength: 80 },
+  },
+};
+
+describe('Room overrides', () => {
+  it('should merge allowed overrides within their bounds', () => {
+    const result = applyRoomOverrides(config, {
+      voice: 'Ashley',
+      speakingRate: 1.1,
+      instructions: 'Mention the spring tasting menu.',
+      greeting: 'Hi {{caller.name}}, thanks for calling about our spring menu!',
+    });
+    assert.deepStrictEqual(result.applied, ['voice', 'speakingRate', 'instructions', 'greeting']);
+    assert.deepStrictEqual(result.rejected, []);
+    assert.strictEqual(result.config.voice, 'Ashley');
+    assert.strictEqual(result.config.speakingRate, 1.1);
+    assert.strictEqual(
+      result.config.instructions,
+      'Book tables for callers.\n\nMention the spring tasting menu.',
+    );
+    assert.strictEqual(result.config.greeting, 'Hi {{caller.name}}, thanks for calling about our spring menu!');
+    assert.strictEqual(config.voice, 'Olivia');
+  });
+
+  it('should keep the voice override over locale voices', () => {
+    const multilingual: AgentConfig = {
+      ...config,
+      locales: { es: { voice: 'Diego', greeting: 'Hola, ¿para cuántas personas?' } },
+    };
+    const result = applyRoomOverrides(multilingual, { voice: 'Ashley' });
+    assert.strictEqual(localizedVoice(result.config, 'es'), 'Ashley');
+    assert.strictEqual(result.config.locales?.es?.greeting, 'Hola, ¿para cuántas personas?');
+    assert.strictEqual(localizedVoice(multilingual, 'es'), 'Diego');
+  });
+
+  it('should ignore fields that are not allowed or out of bounds', () => {
+    const result = applyRoomOverrides(config, {
+      voice: 'Dennis',
+      speakingRate: 2,
+      temperature: 0.2,
+      model: 'gpt-4o',
+      greeting: 'x'.repeat(81),
+    });
+    assert.deepStrictEqual(result.applied, []);
+    assert.deepStrictEqual(result.rejected, [
+      "voice: 'Dennis' is not an allowed voice",
+      'speakingRate: 2 is outside 0.9 to 1.2',
+      'temperature: not overridable for this agent',
+      'model: not overridable for this agent',
+      'greeting: longer than 80 characters',
+    ]);
+    assert.strictEqual(result.config, config);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Per-room config overrides
+ *
+ * The token issuer may pass `overrides` in the room metadata to change one call, e.g. to A/B
+ * voices or personalize the greeting per campaign. Only fields listed in the agent's
+ * `roomOverrides` apply, within their bounds; anything else is ignored and reported back.
+ */
+import type { AgentConfig } from './config/types.js';
+
+const DEFAULT_MAX_TEXT_LENGTH = 1_000;
+const NOT_ALLOWED = 'not overridable for this agent';
+
+export type OverrideResult = {
+  config: AgentConfig;
+  // Fields that were applied
+  applied: string[];
+  // Fields that were ignored, with the reason
+  rejected: string[];
+};
+
+function textProblem(value: unknown, maxLength: number): string | undefined {
+  if (typeof value !== 'string' || !value.trim()) return 'expected text';
+  if (value.trim().length > maxLength) return `longer than ${maxLength} characters`;
+  return undefined;
+}
+
+function numberProblem(
+  value: unknown,
+  bounds: { min: number; max: number } | undefined,
+): string | undefined {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return 'expected a number';
+  if (bounds && (value < bounds.min || value > bounds.max)) {
+    return `${value} is outside ${bounds.min} to ${bounds.max}`;
+  }
+  return undefined;
+}
+
+/** The config with the allowed `overrides` merged in; the input config is left as is. */
+export function applyRoomOverrides(
+  config: AgentConfig,
+  overrides: Record<string, unknown> | undefined,
+): OverrideResult {
+  const allowed = config.roomOverrides ?? {};
+  const next = { ...config };
+  const applied: string[] = [];
+  const rejected: string[] = [];
+
+  // Merge one field into `next`, or say why it cannot be
+  const merge = (field: string, value: unknown): string | undefined => {
+    switch (field) {
+      case 'voice': {
+        const voices = allowed.voice?.allowed;
+        if (typeof value !== 'string' || !value.trim()) return 'expected a voice name';
+        if (voices && !voices.includes(value.trim())) return `'${value}' is not an allowed voice`;
+        next.voice = value.trim();
+        // The call's voice also replaces the locales' voices, so a language switch keeps it
+        if (config.locales) {
+          next.locales = Object.fromEntries(
+            Object.entries(config.locales).map(([code, locale]) => {
+              const rest = { ...locale };
+              delete rest.voice;
+              return [code, rest];
+            }),
+          );
+        }
+        return undefined;
+      }
+      case 'speakingRate':
+      case 'temperature': {
+        const problem = numberProblem(value, allowed[field]);
+        if (!problem) next[field] = value as number;
+        return problem;
+      }
+      case 'instructions':
+      case 'greeting': {
+        const problem = textProblem(value, allowed[field]?.maxLength ?? DEFAULT_MAX_TEXT_LENGTH);
+        if (problem) return problem;
+        const text = (value as string).trim();
+        next[field] = field === 'instructions' ? `${config.instructions}\n\n${text}` : text;
+        return undefined;
+      }
+      default:
+        return NOT_ALLOWED;
+    }
+  };
+
+  for (const [field, value] of Object.entries(overrides ?? {})) {
+    const problem = Object.hasOwn(allowed, field) ? merge(field, value) : NOT_ALLOWED;
+    if (problem) rejected.push(`${field}: ${problem}`);
+    else applied.push(field);
+  }
+  return { config: applied.length ? next : config, applied, rejected };
+}
@@ -0,0 +1,84 @@
+/**
+ * Run a conversation script against an agent config
+ *
+ * Plays the script's turns as a text chat with the agent's instructions, knowledge and tools,
+ * and exits non-zero when a reply misses its expectations (see agent-script.ts).
+ * Run with: pnpm agent:test <agentType> <script.yaml> [--llm agent|mock|<module>]
+ *
+ * `--llm` overrides the script's `llm`. A module path loads an LLM from the module's default
+ * export (an instance, or a function returning one), e.g. a local model server.
+ */
+import dotenv from 'dotenv';
+import { readFile } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { parseArgs } from 'node:util';
+import { parse as parseYaml } from 'yaml';
+
+import { initializeLogger, llm } from '@livekit/agents';
+
+import { AgentScriptSchema, ScriptedLLM, runAgentScript } from '../agent-script.js';
+import { findAgentConfig } from '../config/index.js';
+
+// Load env
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+dotenv.config({ path: resolve(__dirname, '..', '..', '.env.local') });
+
+async function loadModel(choice: string): Promise<llm.LLM | undefined> {
+  if (choice === 'agent') return undefined;
+  if (choice === 'mock') return new ScriptedLLM();
+
+  const module = (await import(pathToFileURL(resolve(choice)).href)) as { default?: unknown };
+  const exported = typeof module.default === 'function' ? await module.default() : module.default;
+  if (!(exported instanceof llm.LLM)) {
+    throw new Error(`${choice} must export an LLM, or a function returning one, as its default`);
+  }
+  return exported;
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: { llm: { type: 'string' } },
+  });
+  const [agentType, scriptPath] = positionals;
+  if (!agentType || !scriptPath) {
+    console.error('Usage: pnpm agent:test <agentType> <script.yaml> [--llm agent|mock|<module>]');
+    process.exit(2);
+  }
+
+  initializeLogger({ pretty: true, level: process.env.LOG_LEVEL ?? 'warn' });
+
+  const script = AgentScriptSchema.parse(parseYaml(await readFile(scriptPath, 'utf-8')));
+  const model = await loadModel(values.llm ?? script.llm);
+  // No fallback to the default agent: a misspelled agent type should not pass someone else's tests
+  const config = await findAgentConfig(agentType);
+  if (!config) throw new Error(`Agent type '${agentType}' is not configured`);
+
+  console.log(`[Test] ${agentType} (${config.agentName}): ${script.description ?? scriptPath}`);
+  console.log(`[Test] Model: ${model ? model.label() : config.model}`);
+
+  const results = await runAgentScript(agentType, config, script, model);
+  let failed = 0;
+  results.forEach((result, i) => {
+    const ok = result.failures.length === 0;
+    if (!ok) failed++;
+    console.log(`\n[Test] ${ok ? 'PASS' : 'FAIL'} turn ${i + 1}`);
+    console.log(`  user:  ${result.user}`);
+    for (const call of result.toolCalls) {
+      console.log(`  tool:  ${call.name} ${JSON.stringify(call.args)}`);
+    }
+    console.log(`  agent: ${result.reply || '(no reply)'}`);
+    for (const failure of result.failures) console.log(`  - ${failure}`);
+  });
+
+  console.log(`\n[Test] ${results.length - failed}/${results.length} turns passed`);
+  // The MySQL config source leaves a pool open
+  process.exit(failed ? 1 : 0);
+}
+
+main().catch((err) => {
+  console.error('[Test] Error:', err);
+  process.exit(1);
+});
@@ -0,0 +1,22 @@
+/**
+ * Scripted lines: greetings, reprompts and closing lines
+ *
+ * Cascade agents speak them verbatim through their TTS. Realtime agents have no TTS, so the
+ * realtime model is asked to say the line word for word in its own voice. Text chats send the
+ * line as it is.
+ */
+import { voice } from '@livekit/agents';
+
+import { isTextSession } from './text-chat.js';
+
+export function speakLine(
+  session: voice.AgentSession,
+  text: string,
+  opts: { allowInterruptions?: boolean } = {},
+): ReturnType<voice.AgentSession['say']> {
+  if (session.currentAgent.tts || isTextSession(session)) return session.say(text, opts);
+  return session.generateReply({
+    instructions: `Say exactly the following to the caller, without adding anything: "${text}"`,
+    ...opts,
+  });
+}
@@ -0,0 +1,103 @@
+/**
+ * Speech-to-text factory for the per-agent `stt` config block.
+ */
+import { inference, stt } from '@livekit/agents';
+import * as openai from '@livekit/agents-plugin-openai';
+
+import type { SttConfig } from './config/types.js';
+
+const DEFAULT_LANGUAGE = 'en';
+const DEFAULT_OPENAI_MODEL = 'gpt-4o-transcribe';
+const DEFAULT_LIVEKIT_MODEL = 'deepgram/nova-3';
+
+// OpenAI transcription has no keyword list, so domain terms go into the prompt instead.
+function buildOpenAIPrompt(cfg: SttConfig): string | undefined {
+  const parts: string[] = [];
+  if (cfg.prompt) parts.push(cfg.prompt);
+  if (cfg.keywords?.length) parts.push(`Vocabulary: ${cfg.keywords.join(', ')}.`);
+  return parts.length ? parts.join('\n') : undefined;
+}
+
+/**
+ * `language` overrides `cfg.language`; pass null to let the provider detect the language,
+ * which multi-language agents need until the caller's language is known.
+ */
+export function createStt(cfg: SttConfig = {}, language: string | null = cfg.language ?? DEFAULT_LANGUAGE) {
+  if (cfg.provider === 'livekit') {
+    const model = cfg.model ?? DEFAULT_LIVEKIT_MODEL;
+    const keywords = cfg.keywords ?? [];
+    // Each LiveKit Inference provider names its biasing option differently
+    const modelOptions = !keywords.length
+      ? {}
+      : model.startsWith('assemblyai/')
+        ? { keyterms_prompt: keywords }
+        : { keyterms: keywords };
+    return new inference.STT({ model, language: language ?? 'multi', modelOptions });
+  }
+
+  return new OpenAISTT(cfg, language);
+}
+
+function createOpenAIStt(cfg: SttConfig, language: string | null): openai.STT {
+  const prompt = buildOpenAIPrompt(cfg);
+  return new openai.STT({
+    model: cfg.model ?? DEFAULT_OPENAI_MODEL,
+    language: language ?? '',
+    detectLanguage: language === null,
+    ...(prompt ? { prompt } : {}),
+  });
+}
+
+/**
+ * OpenAI transcription that can be pinned to a language mid-call. The plugin's options are
+ * fixed at construction, so switching language replaces the wrapped instance.
+ */
+export class OpenAISTT extends stt.STT {
+  label: string;
+  private inner: openai.STT;
+
+  constructor(
+    private readonly cfg: SttConfig,
+    language: string | null,
+  ) {
+    const inner = createOpenAIStt(cfg, language);
+    super(inner.capabilities);
+    this.inner = inner;
+    this.label = inner.label;
+  }
+
+  updateOptions({ language }: { language: string }): void {
+    const previous = this.inner;
+    this.inner = createOpenAIStt(this.cfg, language);
+    void previous.close();
+  }
+
+  protected async _recognize(frame: Parameters<stt.STT['recognize']>[0], abortSignal?: AbortSignal) {
+    return this.inner.recognize(frame, abortSignal);
+  }
+
+  stream(): stt.SpeechStream {
+    return this.inner.stream();
+  }
+
+  override async close(): Promise<void> {
+    await this.inner.close();
+  }
+}
+
+/** "provider/model" with defaults filled in, e.g. "openai/gpt-4o-transcribe". */
+export function sttName(cfg: SttConfig = {}): string {
+  return cfg.provider === 'livekit'
+    ? `livekit/${cfg.model ?? DEFAULT_LIVEKIT_MODEL}`
+    : `openai/${cfg.model ?? DEFAULT_OPENAI_MODEL}`;
+}
+
+/** Pin the STT to a language mid-call, for providers that support it. */
+export function setSttLanguage(instance: unknown, language: string): boolean {
+  if (instance instanceof inference.STT || instance instanceof OpenAISTT) {
+    instance.updateOptions({ language });
+    return true;
+  }
+  console.warn(`[Agent] This STT provider cannot switch to ${language} mid-call`);
+  return false;
+}
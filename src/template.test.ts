@@ -0,0 +1,61 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+
+import type { AgentConfig } from './config/types.js';
+import {
+  findUnsupportedPlaceholders,
+  nowVariables,
+  renderAgentConfig,
+  renderTemplate,
+} from './template.js';
+
+const config: AgentConfig = {
+  agentName: 'Sofia',
+  instructions: 'You help {{caller.name}} with order {{metadata.orderId}}.',
+  greeting: 'Hi {{ caller.name }}, this is {{agent.agentName}}.',
+  voice: 'Olivia',
+  model: 'gpt-4o-mini',
+  ttsModel: 'inworld-tts-1',
+  temperature: 1,
+  speakingRate: 1,
+};
+
+describe('Template variables', () => {
+  it('should fill nested and dotted keys', () => {
+    const result = renderTemplate('{{metadata.order.id}} / {{caller.sip.phoneNumber}}', {
+      metadata: { order: { id: 'A-17' } },
+      caller: { 'sip.phoneNumber': '+15550100' },
+    });
+    assert.deepStrictEqual(result, { text: 'A-17 / +15550100', unknown: [] });
+  });
+
+  it('should report unknown placeholders and render them empty', () => {
+    const result = renderTemplate('Order {{metadata.orderId}}.', { metadata: {} });
+    assert.deepStrictEqual(result, { text: 'Order .', unknown: ['metadata.orderId'] });
+  });
+
+  it('should render instructions and greeting of an agent config', () => {
+    const rendered = renderAgentConfig('restaurant', config, {
+      caller: { name: 'Ana' },
+      metadata: { orderId: 42 },
+    });
+    assert.strictEqual(rendered.instructions, 'You help Ana with order 42.');
+    assert.strictEqual(rendered.greeting, 'Hi Ana, this is Sofia.');
+  });
+
+  it('should give the time in the business hours time zone', () => {
+    const now = nowVariables(new Date('2026-01-05T23:30:00Z'), 'Asia/Tokyo');
+    assert.strictEqual(now.localTime, '8:30 AM');
+    assert.strictEqual(now.date, 'Tuesday, January 6, 2026');
+    assert.strictEqual(now.weekday, 'Tuesday');
+    assert.strictEqual(now.iso, '2026-01-05T23:30:00.000Z');
+  });
+
+  it('should flag placeholders that can never be filled', () => {
+    const withTypos = { ...config, greeting: '{{agent.name}} at {{now.localTime}} {{user.name}}' };
+    assert.deepStrictEqual(findUnsupportedPlaceholders('restaurant', withTypos), [
+      'agent.name',
+      'user.name',
+    ]);
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Template variables for instructions and greetings
+ *
+ * `{{caller.name}}`, `{{metadata.orderId}}`, `{{now.localTime}}` and `{{agent.agentName}}`
+ * style placeholders are filled from the caller's participant, the room metadata, the
+ * current time and the agent's own config.
+ */
+import { describeBusinessHours } from './business-hours.js';
+import type { AgentConfig, LocaleConfig } from './config/types.js';
+
+const PLACEHOLDER_RE = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+export type TemplateVariables = Record<string, unknown>;
+
+export type RenderResult = {
+  text: string;
+  // Placeholders with no matching variable; they render as empty strings
+  unknown: string[];
+};
+
+/** What `entry` knows about the call; `now` and `agent` are added per render. */
+export type CallVariables = {
+  caller?: Record<string, string>;
+  metadata?: Record<string, unknown>;
+};
+
+// Keys may themselves contain dots (participant attributes such as "sip.phoneNumber"),
+// so try the longest matching key first.
+function lookup(value: unknown, path: string): unknown {
+  if (value === null || typeof value !== 'object') return undefined;
+  const record = value as Record<string, unknown>;
+  if (path in record) return record[path];
+
+  const parts = path.split('.');
+  for (let i = parts.length - 1; i > 0; i--) {
+    const key = parts.slice(0, i).join('.');
+    if (key in record) return lookup(record[key], parts.slice(i).join('.'));
+  }
+  return undefined;
+}
+
+export function renderTemplate(template: string, vars: TemplateVariables): RenderResult {
+  const unknown: string[] = [];
+  const text = template.replace(PLACEHOLDER_RE, (_match, key: string) => {
+    const value = lookup(vars, key);
+    if (value === undefined || value === null) {
+      unknown.push(key);
+      return '';
+    }
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  });
+  return { text, unknown };
+}
+
+export function callerVariables(participant: {
+  identity: string;
+  name?: string | undefined;
+  attributes?: Record<string, string>;
+}): Record<string, string> {
+  const phone = participant.attributes?.['sip.phoneNumber'];
+  return {
+    ...participant.attributes,
+    identity: participant.identity,
+    // SIP callers usually have no display name; fall back to their number
+    name: participant.name || phone || participant.identity,
+    ...(phone ? { phone } : {}),
+  };
+}
+
+/** Date and time placeholders, in `timeZone` (the agent's business hours) or server time. */
+export function nowVariables(date = new Date(), timeZone?: string): Record<string, string> {
+  const zone = timeZone ? { timeZone } : {};
+  return {
+    localTime: date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', ...zone }),
+    date: date.toLocaleDateString('en-US', {
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      ...zone,
+    }),
+    weekday: date.toLocaleDateString('en-US', { weekday: 'long', ...zone }),
+    iso: date.toISOString(),
+  };
+}
+
+function agentVariables(agentType: string, config: AgentConfig): Record<string, string> {
+  return {
+    agentType,
+    agentName: config.agentName,
+    voice: config.voice,
+    model: config.model,
+    ...(config.businessHours ? { openingHours: describeBusinessHours(config.businessHours) } : {}),
+  };
+}
+
+function templateTexts(config: AgentConfig): string[] {
+  return [
+    config.instructions,
+    config.greeting,
+    ...Object.values(config.locales ?? {}).flatMap((l) => [l.greeting ?? '', l.instructions ?? '']),
+    config.businessHours?.closedGreeting ?? '',
+    config.businessHours?.closedInstructions ?? '',
+  ];
+}
+
+/**
+ * Placeholders that can never be filled: unknown namespaces, or `now.*` / `agent.*` keys that
+ * do not exist. `caller.*` and `metadata.*` depend on the call and are only checked at runtime.
+ */
+export function findUnsupportedPlaceholders(agentType: string, config: AgentConfig): string[] {
+  const known: TemplateVariables = { now: nowVariables(), agent: agentVariables(agentType, config) };
+  const keys = templateTexts(config).flatMap((text) =>
+    [...text.matchAll(PLACEHOLDER_RE)].map((m) => m[1]!),
+  );
+  const unsupported = keys.filter((key) => {
+    const namespace = key.split('.')[0];
+    if (namespace === 'caller' || namespace === 'metadata') return false;
+    return lookup(known, key) === undefined;
+  });
+  return [...new Set(unsupported)];
+}
+
+/**
+ * Fill placeholders in the instructions and greetings (including per-locale ones) of
+ * `config`. Unknown placeholders are logged and rendered empty.
+ */
+export function renderAgentConfig(
+  agentType: string,
+  config: AgentConfig,
+  call: CallVariables,
+): AgentConfig {
+  const vars: TemplateVariables = {
+    caller: call.caller ?? {},
+    metadata: call.metadata ?? {},
+    now: nowVariables(new Date(), config.businessHours?.timezone),
+    agent: agentVariables(agentType, config),
+  };
+  const unknown = new Set<string>();
+  const render = (text: string): string => {
+    const result = renderTemplate(text, vars);
+    result.unknown.forEach((key) => unknown.add(key));
+    return result.text;
+  };
+
+  const locales = config.locales
+    ? Object.fromEntries(
+        Object.entries(config.locales).map(([code, locale]): [string, LocaleConfig] => [
+          code,
+          {
+            ...locale,
+            ...(locale.greeting ? { greeting: render(locale.greeting) } : {}),
+            ...(locale.instructions ? { instructions: render(locale.instructions) } : {}),
+          },
+        ]),
+      )
+    : undefined;
+
+  const rendered: AgentConfig = {
+    ...config,
+    instructions: render(config.instructions),
+    greeting: render(config.greeting),
+    ...(locales ? { locales } : {}),
+  };
+
+  if (unknown.size > 0) {
+    console.warn(
+      `[Template] Unknown placeholders for agentType ${agentType}: ${[...unknown].map((k) => `{{${k}}}`).join(', ')}`,
+    );
+  }
+  return rendered;
+}
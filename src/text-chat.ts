@@ -0,0 +1,58 @@
+/**
+ * Text-only chat
+ *
+ * Rooms whose metadata has `mode: "text"` run the agent without STT, TTS, VAD or turn
+ * detection: messages arrive on the LiveKit `lk.chat` text stream and every reply, the
+ * greeting included, goes out on the `lk.transcription` text stream. Instructions, knowledge,
+ * tools and handoffs stay the same; the agent's `model` answers, also for realtime agents.
+ *
+ * A voice call switches to text the first time the caller sends a chat message. From then on
+ * the caller's audio is no longer transcribed and replies are no longer voiced.
+ */
+import { type JobContext, voice } from '@livekit/agents';
+
+type Room = JobContext['room'];
+
+export type ConversationMode = 'voice' | 'text';
+
+export function conversationMode(metadata: Record<string, unknown>): ConversationMode {
+  return metadata.mode === 'text' ? 'text' : 'voice';
+}
+
+// Room input and output of a session that starts in text mode
+export const TEXT_INPUT_OPTIONS = { audioEnabled: false } as const;
+export const TEXT_OUTPUT_OPTIONS = { audioEnabled: false, syncTranscription: false } as const;
+
+/** True once the session neither hears nor speaks, from the start or after a switch. */
+export function isTextSession(session: voice.AgentSession): boolean {
+  return !session.output.audio || !session.output.audioEnabled;
+}
+
+/**
+ * Stop listening and speaking in a running voice session. Replies are then published as soon
+ * as they are generated: the room's transcript output waits for audio that never plays.
+ */
+export function switchToText(session: voice.AgentSession, room: Room): void {
+  session.input.setAudioEnabled(false);
+  session.output.setAudioEnabled(false);
+  const identity = room.localParticipant?.identity;
+  if (identity) {
+    session.output.transcription = new voice.ParticipantTranscriptionOutput(room, true, identity);
+  }
+}
+
+/**
+ * Handles chat messages like the SDK's default (interrupt, then reply), after switching a
+ * voice session to text on the first one. `onSwitch` runs once, when that happens.
+ */
+export function chatInputHandler(room: Room, onSwitch: () => void): voice.TextInputCallback {
+  return (session, ev) => {
+    if (!isTextSession(session)) {
+      console.log(`[Chat] ${ev.participant.identity} sent a chat message, switching to text`);
+      switchToText(session, room);
+      onSwitch();
+    }
+    session.interrupt();
+    session.generateReply({ userInput: ev.text });
+  };
+}
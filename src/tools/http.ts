@@ -0,0 +1,100 @@
+/**
+ * Config-defined HTTP function tools
+ *
+ * Each tool in `AgentConfig.tools` becomes an LLM function tool. When the model calls it,
+ * the arguments are substituted into the URL template and the endpoint's response is
+ * returned to the model as the tool result.
+ */
+import { llm } from '@livekit/agents';
+
+import type { HttpTool } from '../config/types.js';
+
+const DEFAULT_METHOD = 'GET';
+const DEFAULT_TIMEOUT_MS = 10_000;
+const MAX_RESPONSE_CHARS = Number(process.env.TOOL_MAX_RESPONSE_CHARS ?? 4_000);
+const EMPTY_PARAMETERS = { type: 'object', properties: {} } as const;
+
+const PLACEHOLDER_RE = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+type ToolArgs = Record<string, unknown>;
+
+/**
+ * Replace {{argName}} and {{env.NAME}} placeholders. Returns the names of the arguments
+ * that were consumed so they are not sent a second time in the query string or body.
+ */
+function fillTemplate(
+  template: string,
+  args: ToolArgs,
+  encode: (value: string) => string,
+): { value: string; used: Set<string> } {
+  const used = new Set<string>();
+  const value = template.replace(PLACEHOLDER_RE, (_match, key: string) => {
+    if (key.startsWith('env.')) {
+      return process.env[key.slice(4)] ?? '';
+    }
+    const arg = args[key];
+    used.add(key);
+    if (arg === undefined || arg === null) return '';
+    return encode(typeof arg === 'string' ? arg : JSON.stringify(arg));
+  });
+  return { value, used };
+}
+
+export async function invokeHttpTool(tool: HttpTool, args: ToolArgs): Promise<string> {
+  const method = tool.method ?? DEFAULT_METHOD;
+  const { value: urlString, used } = fillTemplate(tool.url, args, encodeURIComponent);
+  const url = new URL(urlString);
+
+  const headers: Record<string, string> = {};
+  for (const [name, template] of Object.entries(tool.headers ?? {})) {
+    headers[name] = fillTemplate(template, args, (v) => v).value;
+  }
+
+  const rest = Object.fromEntries(Object.entries(args).filter(([k]) => !used.has(k)));
+  let body: string | undefined;
+  if (method === 'GET' || method === 'DELETE') {
+    for (const [k, v] of Object.entries(rest)) {
+      if (v === undefined || v === null) continue;
+      url.searchParams.set(k, typeof v === 'string' ? v : JSON.stringify(v));
+    }
+  } else {
+    body = JSON.stringify(rest);
+    headers['Content-Type'] ??= 'application/json';
+  }
+
+  const res = await fetch(url, {
+    method,
+    headers,
+    ...(body !== undefined ? { body } : {}),
+    signal: AbortSignal.timeout(tool.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+  });
+
+  const text = (await res.text()).slice(0, MAX_RESPONSE_CHARS);
+  if (!res.ok) {
+    throw new llm.ToolError(`${tool.name} failed with HTTP ${res.status}: ${text}`);
+  }
+  return text.length ? text : `HTTP ${res.status}`;
+}
+
+export function buildHttpTools(tools: HttpTool[]): llm.ToolContext {
+  return Object.fromEntries(
+    tools.map((tool) => [
+      tool.name,
+      llm.tool({
+        description: tool.description,
+        // Config holds plain JSON schema; the SDK does not export its JSON schema type.
+        parameters: (tool.parameters ?? EMPTY_PARAMETERS) as typeof EMPTY_PARAMETERS,
+        execute: async (args: ToolArgs) => {
+          console.log(`[Tools] ${tool.name} invoked with ${JSON.stringify(args)}`);
+          try {
+            return await invokeHttpTool(tool, args);
+          } catch (err) {
+            if (err instanceof llm.ToolError) throw err;
+            console.warn(`[Tools] ${tool.name} failed:`, err);
+            throw new llm.ToolError(`${tool.name} is unavailable right now`);
+          }
+        },
+      }),
+    ]),
+  );
+}
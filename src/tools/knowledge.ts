@@ -0,0 +1,36 @@
+/**
+ * Knowledge search tool
+ *
+ * Exposes the agent's local BM25 index as `search_knowledge`, so only the passages relevant
+ * to the current turn enter the context.
+ */
+import { llm } from '@livekit/agents';
+import { z } from 'zod';
+
+import type { KnowledgeIndex } from '../knowledge/bm25.js';
+
+const DEFAULT_TOP_K = 4;
+
+export function buildKnowledgeTools(
+  index: KnowledgeIndex | undefined,
+  topK = DEFAULT_TOP_K,
+): llm.ToolContext {
+  if (!index || index.size === 0) return {};
+
+  return {
+    search_knowledge: llm.tool({
+      description:
+        'Search the knowledge base (menus, policies, FAQs and other reference material) for ' +
+        'passages relevant to the caller. Use it whenever you need facts you are not sure about.',
+      parameters: z.object({
+        query: z.string().describe('Keywords or a short question describing what to look up'),
+      }),
+      execute: async ({ query }) => {
+        const hits = index.search(query, topK);
+        console.log(`[Knowledge] search_knowledge "${query}" -> ${hits.length} passages`);
+        if (hits.length === 0) return 'No relevant passages found in the knowledge base.';
+        return hits.map((hit, i) => `[${i + 1}] (${hit.source}) ${hit.text}`).join('\n\n');
+      },
+    }),
+  };
+}
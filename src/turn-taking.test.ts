@@ -0,0 +1,66 @@
+import type { VAD } from '@livekit/agents';
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import { type AgentConfig, TurnTakingConfigSchema } from './config/types.js';
+import { greetingInterruptible, voiceSessionOptions } from './turn-taking.js';
+
+const base: AgentConfig = {
+  agentName: 'Lobby Kiosk',
+  instructions: 'Help visitors find their way.',
+  greeting: 'Welcome! Where would you like to go?',
+  voice: 'Olivia',
+  model: 'gpt-4o-mini',
+  ttsModel: 'inworld-tts-1',
+  temperature: 0.8,
+  speakingRate: 1,
+};
+const vad = {} as VAD;
+
+describe('Turn-taking', () => {
+  it('should map the turnTaking block to session options', () => {
+    const config = {
+      ...base,
+      turnTaking: {
+        turnDetector: false,
+        minEndpointingDelayMs: 900,
+        allowInterruptions: true,
+        minInterruptionWords: 0,
+        minInterruptionDurationMs: 1200,
+      },
+    };
+    const options = voiceSessionOptions(config, vad);
+    assert.strictEqual(options.turnDetection, undefined);
+    assert.strictEqual(options.vad, vad);
+    assert.deepStrictEqual(options.voiceOptions, {
+      preemptiveGeneration: true,
+      allowInterruptions: true,
+      minInterruptionDuration: 1200,
+      minInterruptionWords: 0,
+      minEndpointingDelay: 900,
+    });
+  });
+
+  it('should let the greeting follow allowInterruptions unless set', () => {
+    assert.strictEqual(greetingInterruptible(base), true);
+    assert.strictEqual(
+      greetingInterruptible({ ...base, turnTaking: { allowInterruptions: false } }),
+      false,
+    );
+    assert.strictEqual(
+      greetingInterruptible({
+        ...base,
+        turnTaking: { allowInterruptions: true, interruptibleGreeting: false },
+      }),
+      false,
+    );
+  });
+
+  it('should reject a min endpointing delay above the max', () => {
+    assert.ok(
+      !TurnTakingConfigSchema.safeParse({
+        minEndpointingDelayMs: 3000,
+        maxEndpointingDelayMs: 1000,
+      }).success,
+    );
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Turn-taking and interruptions
+ *
+ * An agent's `turnTaking` block sets when it answers and how easily the caller can talk over
+ * it: a phone line wants quick replies and easy barge-in, a kiosk in a noisy lobby longer
+ * pauses and no interruptions from background chatter. The agent that takes the call sets
+ * them for the whole session; handoff targets keep only their own `interruptibleGreeting`.
+ */
+import type { VAD, voice } from '@livekit/agents';
+import * as livekit from '@livekit/agents-plugin-livekit';
+import type { AgentConfig } from './config/types.js';
+
+/** Turn detection, VAD and voice options for a voice session answered by `config`. */
+export function voiceSessionOptions(config: AgentConfig, vad: VAD): voice.AgentSessionOptions {
+  const t = config.turnTaking ?? {};
+  return {
+    // Without the turn detector, turns end after VAD silence of minEndpointingDelayMs
+    ...(t.turnDetector === false
+      ? {}
+      : { turnDetection: new livekit.turnDetector.MultilingualModel() }),
+    vad,
+    voiceOptions: {
+      preemptiveGeneration: t.preemptiveGeneration ?? true,
+      ...(t.allowInterruptions !== undefined ? { allowInterruptions: t.allowInterruptions } : {}),
+      ...(t.minInterruptionDurationMs !== undefined
+        ? { minInterruptionDuration: t.minInterruptionDurationMs }
+        : {}),
+      ...(t.minInterruptionWords !== undefined
+        ? { minInterruptionWords: t.minInterruptionWords }
+        : {}),
+      ...(t.minEndpointingDelayMs !== undefined
+        ? { minEndpointingDelay: t.minEndpointingDelayMs }
+        : {}),
+      ...(t.maxEndpointingDelayMs !== undefined
+        ? { maxEndpointingDelay: t.maxEndpointingDelayMs }
+        : {}),
+    },
+  };
+}
+
+export function greetingInterruptible(config: AgentConfig): boolean {
+  return config.turnTaking?.interruptibleGreeting ?? config.turnTaking?.allowInterruptions ?? true;
+}
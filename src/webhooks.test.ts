@@ -0,0 +1,41 @@
+import assert from 'node:assert';
+import { createHmac } from 'node:crypto';
+import { describe, it } from 'node:test';
+
+import { WebhookSchema } from './config/types.js';
+import { resolveWebhookSecret, retryDelayMs, signWebhook, webhookSecretEnv } from './webhooks.js';
+
+describe('Webhooks', () => {
+  it('should sign the timestamp and body with HMAC-SHA256', () => {
+    const body = '{"event":"session.ended"}';
+    const expected = createHmac('sha256', 's3cret').update(`1700000000.${body}`).digest('hex');
+    assert.strictEqual(signWebhook('s3cret', 1700000000, body), `t=1700000000,v1=${expected}`);
+    assert.notStrictEqual(signWebhook('s3cret', 1700000001, body), signWebhook('s3cret', 1700000000, body));
+  });
+
+  it('should back off exponentially up to six hours', () => {
+    assert.strictEqual(retryDelayMs(1), 30_000);
+    assert.strictEqual(retryDelayMs(2), 60_000);
+    assert.strictEqual(retryDelayMs(4), 240_000);
+    assert.strictEqual(retryDelayMs(20), 6 * 3_600_000);
+  });
+
+  it('should read secrets from the environment variable the webhook names', () => {
+    process.env.TEST_CRM_SECRET = 'from-env';
+    try {
+      const url = 'https://crm.example.com/hooks';
+      assert.strictEqual(webhookSecretEnv({ url, secret: '{{ env.TEST_CRM_SECRET }}' }), 'TEST_CRM_SECRET');
+      assert.strictEqual(webhookSecretEnv({ url }), 'WEBHOOK_SECRET');
+      assert.strictEqual(resolveWebhookSecret('TEST_CRM_SECRET'), 'from-env');
+      assert.strictEqual(resolveWebhookSecret('TEST_MISSING_SECRET'), null);
+    } finally {
+      delete process.env.TEST_CRM_SECRET;
+    }
+  });
+
+  it('should only accept secrets from the environment', () => {
+    const url = 'https://crm.example.com/hooks';
+    assert.ok(WebhookSchema.safeParse({ url, secret: '{{env.CRM_WEBHOOK_SECRET}}' }).success);
+    assert.ok(!WebhookSchema.safeParse({ url, secret: 'inline' }).success);
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * Signed outbound webhooks
+ *
+ * Agents list `webhooks` to be told about `session.started`, `turn.completed`, `tool.invoked`
+ * and `session.ended`. Each event is first written to the `webhook_outbox` table, then POSTed
+ * by the call's worker. Failed deliveries are retried with exponential backoff by the admin
+ * panel, which also sends events a worker stored but had not sent 30 seconds later, e.g.
+ * because it stopped. Retries only run while the admin panel does; deliveries that fall due
+ * while it is down go out when it starts again.
+ *
+ * The outbox stores the name of the environment variable holding the signing key, never the
+ * key, so the admin panel needs the same webhook secrets in its environment as the workers.
+ *
+ * Bodies are signed with HMAC-SHA256 over `<timestamp>.<body>` and sent with
+ * `X-Oly-Signature: t=<unix seconds>,v1=<hex digest>`. Receivers should recompute the digest
+ * and reject stale timestamps; `X-Oly-Delivery` is stable across retries of one delivery.
+ */
+import { createHmac, randomUUID } from 'node:crypto';
+
+import { WEBHOOK_EVENTS, WEBHOOK_SECRET_RE, type Webhook, type WebhookEvent } from './config/types.js';
+import { getSharedPool, type MySqlPool } from './db/mysql.js';
+import { ensureSchema } from './db/schema.js';
+import {
+  claimDueWebhooks,
+  deleteSettledWebhooks,
+  enqueueWebhooks,
+  markWebhookDelivered,
+  markWebhookFailed,
+  type OutboxEntry,
+} from './db/webhook-outbox.js';
+
+const DELIVERY_TIMEOUT_MS = 10_000;
+// How long a finished call waits for first attempts; the rest is left to the retry loop
+const FLUSH_TIMEOUT_MS = 5_000;
+const DELIVERY_TICK_MS = 15_000;
+// How long a claimed delivery is hidden from other processes
+const CLAIM_LEASE_MS = 60_000;
+const CLAIM_BATCH = 20;
+const FIRST_RETRY_MS = 30_000;
+const MAX_RETRY_MS = 6 * 3_600_000;
+// Delivered and abandoned entries are kept this long for inspection
+const OUTBOX_RETENTION_DAYS = 7;
+const USER_AGENT = 'OlyWebhooks/1.0';
+
+function maxAttempts(): number {
+  const attempts = Number(process.env.WEBHOOK_MAX_ATTEMPTS);
+  return Number.isInteger(attempts) && attempts > 0 ? attempts : 10;
+}
+
+/** Environment variable holding a webhook's signing key: the one its `secret` names, or WEBHOOK_SECRET. */
+export function webhookSecretEnv(webhook: Webhook): string {
+  return (webhook.secret && WEBHOOK_SECRET_RE.exec(webhook.secret)?.[1]) || 'WEBHOOK_SECRET';
+}
+
+/** The signing key in environment variable `name`, or null when it is not set. */
+export function resolveWebhookSecret(name: string): string | null {
+  return process.env[name]?.trim() || null;
+}
+
+/** Value of the X-Oly-Signature header for `body` sent at `timestamp` (unix seconds). */
+export function signWebhook(secret: string, timestamp: number, body: string): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/** Wait before the next attempt, after `attempts` failed ones: 30s, 1m, 2m, ... up to 6h. */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(FIRST_RETRY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_MS);
+}
+
+async function sendWebhook(entry: OutboxEntry): Promise<void> {
+  const secret = resolveWebhookSecret(entry.secretEnv);
+  if (!secret) throw new Error(`${entry.secretEnv} is not set`);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const res = await fetch(entry.url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'User-Agent': USER_AGENT,
+      'X-Oly-Event': entry.event,
+      'X-Oly-Delivery': entry.id,
+      'X-Oly-Signature': signWebhook(secret, timestamp, entry.payload),
+    },
+    body: entry.payload,
+    redirect: 'manual',
+    signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+  });
+  // Drain the body so the connection can be reused
+  await res.arrayBuffer().catch(() => undefined);
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+}
+
+/**
+ * Send every due delivery (or only the listed ones) once. Failures are rescheduled with
+ * backoff until WEBHOOK_MAX_ATTEMPTS is reached.
+ */
+export async function deliverDueWebhooks(pool: MySqlPool, ids?: string[]): Promise<void> {
+  for (;;) {
+    const entries = await claimDueWebhooks(pool, {
+      limit: CLAIM_BATCH,
+      leaseMs: CLAIM_LEASE_MS,
+      ...(ids ? { ids } : {}),
+    });
+    if (entries.length === 0) return;
+
+    for (const entry of entries) {
+      try {
+        await sendWebhook(entry);
+        await markWebhookDelivered(pool, entry.id);
+      } catch (err) {
+        const error = (err as Error).message || 'Delivery failed';
+        const attempts = entry.attempts + 1;
+        const giveUp = attempts >= maxAttempts();
+        console.warn(
+          `[Webhooks] ${entry.event} to ${entry.url} failed (attempt ${attempts}): ${error}` +
+            (giveUp ? '; giving up' : ''),
+        );
+        await markWebhookFailed(pool, entry.id, {
+          error,
+          retryAt: giveUp ? null : new Date(Date.now() + retryDelayMs(attempts)),
+        });
+      }
+    }
+    if (entries.length < CLAIM_BATCH) return;
+  }
+}
+
+/** Retry due deliveries every few seconds and clear out old settled ones. */
+export function startWebhookDelivery(pool: MySqlPool): NodeJS.Timeout {
+  let running = false;
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await deliverDueWebhooks(pool);
+      const removed = await deleteSettledWebhooks(pool, OUTBOX_RETENTION_DAYS);
+      if (removed) console.log(`[Webhooks] Removed ${removed} settled deliveries`);
+    } catch (err) {
+      console.error('[Webhooks] Delivery run failed:', err);
+    } finally {
+      running = false;
+    }
+  };
+  void tick();
+  return setInterval(() => void tick(), DELIVERY_TICK_MS);
+}
+
+let schemaReady: Promise<void> | undefined;
+
+/**
+ * Webhooks of one call. Events are stored in order and each is sent right away; a database
+ * problem is logged and never interrupts the call.
+ */
+export class CallWebhooks {
+  // Writes and first attempts are chained separately, so a slow receiver does not hold up
+  // storing later events, and a receiver sees one call's events in order
+  private stored: Promise<void> = Promise.resolve();
+  private sending: Promise<void> = Promise.resolve();
+
+  private constructor(
+    private readonly pool: MySqlPool,
+    private readonly targets: { webhook: Webhook; secretEnv: string }[],
+    private readonly context: { sessionId: string; agentType: string; roomName: string },
+  ) {}
+
+  /** Returns null when the agent has no webhooks or the outbox cannot be reached. */
+  static async start(opts: {
+    webhooks: Webhook[] | undefined;
+    sessionId: string;
+    agentType: string;
+    roomName: string;
+  }): Promise<CallWebhooks | null> {
+    const targets: { webhook: Webhook; secretEnv: string }[] = [];
+    for (const webhook of opts.webhooks ?? []) {
+      const secretEnv = webhookSecretEnv(webhook);
+      if (resolveWebhookSecret(secretEnv)) targets.push({ webhook, secretEnv });
+      else console.warn(`[Webhooks] No secret for ${webhook.url} (${secretEnv} is not set), skipping`);
+    }
+    if (targets.length === 0) return null;
+
+    try {
+      const pool = getSharedPool();
+      schemaReady ??= ensureSchema(pool);
+      await schemaReady;
+      return new CallWebhooks(pool, targets, {
+        sessionId: opts.sessionId,
+        agentType: opts.agentType,
+        roomName: opts.roomName,
+      });
+    } catch (err) {
+      schemaReady = undefined;
+      console.warn('[Webhooks] Failed to open the webhook outbox, events will not be sent:', err);
+      return null;
+    }
+  }
+
+  emit(event: WebhookEvent, data: Record<string, unknown>): void {
+    const targets = this.targets.filter(({ webhook }) => (webhook.events ?? WEBHOOK_EVENTS).includes(event));
+    if (targets.length === 0) return;
+
+    const payload = JSON.stringify({
+      id: randomUUID(),
+      event,
+      createdAt: new Date().toISOString(),
+      ...this.context,
+      data,
+    });
+    const entries = targets.map(({ webhook, secretEnv }) => ({
+      id: randomUUID(),
+      event,
+      url: webhook.url,
+      secretEnv,
+      payload,
+    }));
+    this.stored = this.stored
+      .then(() => enqueueWebhooks(this.pool, entries, new Date(Date.now() + FIRST_RETRY_MS)))
+      .catch((err) => console.warn(`[Webhooks] Failed to store ${event}:`, err));
+    const stored = this.stored;
+    this.sending = this.sending
+      .then(async () => {
+        await stored;
+        await deliverDueWebhooks(this.pool, entries.map((e) => e.id));
+      })
+      .catch((err) => console.warn(`[Webhooks] Failed to send ${event}:`, err));
+  }
+
+  /**
+   * Wait until every event is stored and has had its first delivery attempt, for at most
+   * FLUSH_TIMEOUT_MS. Whatever is still unsent stays in the outbox for the retry loop.
+   */
+  async flush(): Promise<void> {
+    let timer: NodeJS.Timeout | undefined;
+    const deadline = new Promise<'timeout'>((resolvePromise) => {
+      timer = setTimeout(() => resolvePromise('timeout'), FLUSH_TIMEOUT_MS);
+    });
+    try {
+      if ((await Promise.race([this.sending, deadline])) === 'timeout') {
+        console.warn('[Webhooks] Some deliveries are still pending; the retry loop will send them');
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}